@@ -0,0 +1,33 @@
+import { Env, TokenBudget } from "../types"
+
+export const DEFAULT_BUDGET: TokenBudget = {
+  tokensPerDay: 200000,
+  tokensPerMonth: 2000000,
+  costPerMonthUSD: 25
+}
+
+// Per-repository overrides; LLM_BUDGETS can override these again at deploy
+// time, e.g. LLM_BUDGETS = '{"*": {"tokensPerDay": 50000}}'
+const REPOSITORY_BUDGETS: Record<string, TokenBudget> = {}
+
+function parseBudgetOverrides(env: Env): Record<string, TokenBudget> {
+  if (!env.LLM_BUDGETS) {
+    return {}
+  }
+  try {
+    return JSON.parse(env.LLM_BUDGETS)
+  } catch (error) {
+    console.error("Ignoring invalid LLM_BUDGETS:", error)
+    return {}
+  }
+}
+
+export function getBudget(repository: string, env: Env): TokenBudget {
+  const overrides = parseBudgetOverrides(env)
+  return {
+    ...DEFAULT_BUDGET,
+    ...REPOSITORY_BUDGETS[repository],
+    ...overrides["*"],
+    ...overrides[repository]
+  }
+}
@@ -0,0 +1,90 @@
+import { Env, LLMConfig, LLMProviderName, LLMTarget } from "../types"
+
+// Used when a provider is overridden without naming a model
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openrouter: "openai/gpt-3.5-turbo",
+  anthropic: "claude-3-haiku-20240307",
+  "workers-ai": "@cf/meta/llama-3.1-8b-instruct",
+  mock: "mock"
+}
+
+// Provider and model per ENVIRONMENT; the LLM_* vars override them
+const LLM_CONFIGS: Record<string, LLMConfig> = {
+  production: {
+    primary: { provider: "openrouter", model: DEFAULT_MODELS.openrouter },
+    fallback: { provider: "anthropic", model: DEFAULT_MODELS.anthropic },
+    maxTokens: 2000,
+    timeoutMs: 60000,
+    maxRetries: 2
+  },
+  development: {
+    primary: { provider: "mock", model: "mock" },
+    maxTokens: 2000,
+    timeoutMs: 10000,
+    maxRetries: 0
+  }
+}
+
+function isProviderName(name: string): name is LLMProviderName {
+  return name in DEFAULT_MODELS
+}
+
+function parseProvider(name: string): LLMProviderName {
+  if (!isProviderName(name)) {
+    throw new Error(
+      `Unknown LLM provider "${name}" (expected one of ${Object.keys(
+        DEFAULT_MODELS
+      ).join(", ")})`
+    )
+  }
+  return name
+}
+
+// A configured target stays configured; an unset fallback is only created
+// by naming a provider
+function withOverrides(
+  target: LLMTarget,
+  provider: string | undefined,
+  model: string | undefined
+): LLMTarget
+function withOverrides(
+  target: LLMTarget | undefined,
+  provider: string | undefined,
+  model: string | undefined
+): LLMTarget | undefined
+function withOverrides(
+  target: LLMTarget | undefined,
+  provider: string | undefined,
+  model: string | undefined
+): LLMTarget | undefined {
+  if (!provider) {
+    if (!model) {
+      return target
+    }
+    if (!target) {
+      throw new Error("An LLM model override needs a provider to go with it")
+    }
+    return { ...target, model }
+  }
+
+  const name = parseProvider(provider)
+  return {
+    provider: name,
+    model:
+      model ?? (name === target?.provider ? target.model : DEFAULT_MODELS[name])
+  }
+}
+
+export function getLLMConfig(env: Env): LLMConfig {
+  const defaults = LLM_CONFIGS[env.ENVIRONMENT] ?? LLM_CONFIGS.production
+
+  return {
+    ...defaults,
+    primary: withOverrides(defaults.primary, env.LLM_PROVIDER, env.LLM_MODEL),
+    fallback: withOverrides(
+      defaults.fallback,
+      env.LLM_FALLBACK_PROVIDER,
+      env.LLM_FALLBACK_MODEL
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { LLMUsage } from "../types"
+
+// USD per million tokens
+interface ModelPrice {
+  input: number
+  output: number
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "openai/gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+  "@cf/meta/llama-3.1-8b-instruct": { input: 0.28, output: 0.83 },
+  mock: { input: 0, output: 0 }
+}
+
+export function getModelPrice(model: string): ModelPrice {
+  const price = MODEL_PRICES[model]
+  if (!price) {
+    console.warn(`No price configured for model ${model}, counting it as free`)
+    return { input: 0, output: 0 }
+  }
+  return price
+}
+
+export function calculateCost(model: string, usage: LLMUsage): number {
+  const price = getModelPrice(model)
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  )
+}
@@ -0,0 +1,41 @@
+import { AccessPolicy, Env } from "../types"
+
+export const ACCESS_POLICY: AccessPolicy = {
+  // Organization members and outside collaborators may only have read
+  // access, so they are held to minPermission like everyone else
+  reviewer: {
+    associations: ["OWNER"],
+    minPermission: "write",
+    commands: ["run", "cancel", "status", "help", "invalid"]
+  },
+  // Returning contributors may check their own pull requests; first-time
+  // contributors need a reviewer to run the check for them
+  author: {
+    associations: ["CONTRIBUTOR"],
+    minPermission: "triage",
+    commands: ["run", "cancel", "status", "help", "invalid"]
+  },
+  everyone: ["status", "help", "invalid"]
+}
+
+export function getReviewers(env: Env): string[] {
+  if (!env.WIKI_REVIEWERS) {
+    return []
+  }
+  try {
+    const reviewers = JSON.parse(env.WIKI_REVIEWERS)
+    return Array.isArray(reviewers)
+      ? reviewers.map((login: string) => login.toLowerCase())
+      : []
+  } catch (error) {
+    console.error("Ignoring invalid WIKI_REVIEWERS:", error)
+    return []
+  }
+}
+
+export function getReviewerTeam(
+  env: Env
+): { org: string; teamSlug: string } | null {
+  const [org, teamSlug] = env.REVIEWER_TEAM?.split("/") ?? []
+  return org && teamSlug ? { org, teamSlug } : null
+}
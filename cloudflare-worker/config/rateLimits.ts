@@ -0,0 +1,22 @@
+import { Env, RateLimits } from "../types"
+
+// Shared by all repositories, since they share the provider accounts
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  requestsPerMinute: 5,
+  inputTokensPerMinute: 10000,
+  outputTokensPerMinute: 8000
+}
+
+// LLM_RATE_LIMITS overrides these at deploy time, e.g.
+// LLM_RATE_LIMITS = '{"requestsPerMinute": 20}'
+export function getRateLimits(env: Env): RateLimits {
+  if (!env.LLM_RATE_LIMITS) {
+    return DEFAULT_RATE_LIMITS
+  }
+  try {
+    return { ...DEFAULT_RATE_LIMITS, ...JSON.parse(env.LLM_RATE_LIMITS) }
+  } catch (error) {
+    console.error("Ignoring invalid LLM_RATE_LIMITS:", error)
+    return DEFAULT_RATE_LIMITS
+  }
+}
@@ -0,0 +1,133 @@
+import { Chain, ReferenceCategory } from "../types"
+
+export interface ExplorerSource {
+  hosts: string[]
+  // Fixed chain, or picked from a path segment such as /btc/ or /bitcoin/
+  chain?: Chain
+  chainSegments?: Record<string, Chain | null>
+  txPaths: string[]
+  addressPaths: string[]
+}
+
+// Explorers whose tx and address links are validated. Segments mapping to
+// null are chains without a format check (e.g. bitcoin-cash, litecoin).
+export const EXPLORERS: ExplorerSource[] = [
+  {
+    hosts: [
+      "etherscan.io",
+      "optimistic.etherscan.io",
+      "bscscan.com",
+      "arbiscan.io",
+      "polygonscan.com",
+      "snowtrace.io",
+      "ftmscan.com",
+      "basescan.org",
+      "cronoscan.com",
+      "moonscan.io",
+      "gnosisscan.io",
+      "lineascan.build",
+      "blastscan.io"
+    ],
+    chain: "evm",
+    txPaths: ["tx"],
+    addressPaths: ["address", "token"]
+  },
+  {
+    hosts: ["blockchain.com", "blockchair.com"],
+    chainSegments: {
+      btc: "bitcoin",
+      bitcoin: "bitcoin",
+      eth: "evm",
+      ethereum: "evm",
+      bch: null,
+      "bitcoin-cash": null,
+      litecoin: null
+    },
+    txPaths: ["tx", "transaction", "transactions"],
+    addressPaths: ["address", "addresses"]
+  },
+  {
+    hosts: ["mempool.space", "blockstream.info"],
+    chain: "bitcoin",
+    txPaths: ["tx"],
+    addressPaths: ["address"]
+  },
+  {
+    hosts: ["explorer.solana.com", "solscan.io", "solana.fm"],
+    chain: "solana",
+    txPaths: ["tx"],
+    addressPaths: ["address", "account", "token"]
+  },
+  {
+    hosts: ["tronscan.org", "tronscan.io"],
+    chain: "tron",
+    txPaths: ["transaction"],
+    addressPaths: ["address", "contract"]
+  }
+]
+
+// Matched against the host and its parent domains, so
+// "slowmist.medium.com" is a security firm, not a generic blog
+export const CATEGORY_DOMAINS: [ReferenceCategory, string[]][] = [
+  [
+    "explorer",
+    [
+      "xrpscan.com",
+      "tzstats.com",
+      "explorer.horizen.io",
+      "oklink.com",
+      "debank.com",
+      "arkhamintelligence.com"
+    ]
+  ],
+  [
+    "security",
+    [
+      "halborn.com",
+      "certik.com",
+      "peckshield.com",
+      "slowmist.medium.com",
+      "slowmist.com",
+      "immunebytes.com",
+      "rekt.news",
+      "hacken.io",
+      "elliptic.co",
+      "chainalysis.com",
+      "merklescience.com",
+      "neptunemutual.com",
+      "blocksec.com",
+      "beosin.com",
+      "cyvers.ai",
+      "trmlabs.com",
+      "quillaudits.com",
+      "openzeppelin.com",
+      "trailofbits.com"
+    ]
+  ],
+  [
+    "news",
+    [
+      "coindesk.com",
+      "cointelegraph.com",
+      "theblock.co",
+      "decrypt.co",
+      "reuters.com",
+      "bloomberg.com",
+      "cryptobriefing.com",
+      "news.bitcoin.com",
+      "cryptonews.com",
+      "forbes.com",
+      "bbc.com",
+      "bbc.co.uk",
+      "theguardian.com",
+      "finance.yahoo.com",
+      "wsj.com",
+      "ft.com",
+      "techcrunch.com",
+      "thedefiant.io",
+      "dlnews.com"
+    ]
+  ],
+  ["social", ["twitter.com", "x.com", "t.me", "reddit.com", "youtube.com"]],
+  ["protocol", ["medium.com", "mirror.xyz", "substack.com", "github.com"]]
+]
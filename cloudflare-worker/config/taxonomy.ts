@@ -0,0 +1,134 @@
+import { TaxonomyField } from "../types"
+
+export interface TaxonomyTerm {
+  value: string
+  // Other spellings seen in the corpus, replaced by `value`
+  aliases?: string[]
+  // Wiki page describing the term, relative to WIKI_PATH
+  wiki?: string
+  // Phrases in the article body that suggest the term
+  keywords?: string[]
+}
+
+export const WIKI_PATH = "content/research/cyberattacks/wiki/"
+
+export const ATTACK_TYPES: TaxonomyTerm[] = [
+  {
+    value: "Smart Contract Exploit",
+    aliases: ["Smart Contract Vulnerability", "Contract Exploit"]
+  },
+  { value: "Wallet Hack", aliases: ["Hot Wallet Hack", "Wallet Compromise"] },
+  {
+    value: "Flash Loan Attack",
+    aliases: [
+      "Flash Loan",
+      "Flashloan",
+      "Flashloan Attack",
+      "Flash Loan Exploit"
+    ],
+    wiki: "flashloan.md",
+    keywords: ["flash loan", "flashloan"]
+  },
+  {
+    value: "51%",
+    aliases: ["51% Attack", "51 Percent Attack", "Majority Attack"],
+    wiki: "51-percent/index.md",
+    keywords: ["51% attack", "chain reorganization", "reorg", "double-spend"]
+  },
+  { value: "Infrastructure Attack" },
+  {
+    value: "Web Infrastructure Attack",
+    aliases: ["DNS Hijacking", "Frontend Attack"],
+    keywords: ["dns hijack", "bgp hijack", "compromised frontend"]
+  },
+  {
+    value: "Private Key Leak",
+    aliases: [
+      "Private Key Compromise",
+      "Private Key Theft",
+      "Key Compromise",
+      "Compromised Private Key"
+    ],
+    keywords: ["private key was compromised", "private keys were compromised"]
+  },
+  { value: "Scam", aliases: ["Exit Scam", "Fraud"] },
+  {
+    value: "Reentrancy Attack",
+    aliases: ["Reentrancy", "Re-entrancy", "Re-entrancy Attack"],
+    wiki: "reentrancy.md",
+    keywords: ["reentrancy", "re-entrancy", "reentrant"]
+  },
+  {
+    value: "Rug Pull",
+    aliases: ["Rugpull"],
+    wiki: "rugpull.md",
+    keywords: ["rug pull", "rugpull", "rug-pull"]
+  },
+  {
+    value: "Lockout Scam",
+    aliases: ["Lockout"],
+    wiki: "lockout.md"
+  },
+  {
+    value: "Signature Verification Issue",
+    aliases: ["Signature Verification Bypass", "Signature Forgery"]
+  },
+  {
+    value: "Phishing",
+    aliases: ["Phishing Attack"],
+    wiki: "phishing/index.md",
+    keywords: ["phishing"]
+  },
+  {
+    value: "Price Oracle Manipulation",
+    aliases: ["Oracle Manipulation", "Price Manipulation"],
+    keywords: ["oracle manipulation", "manipulated the price oracle"]
+  },
+  { value: "Insider Attack", aliases: ["Insider Threat", "Insider Job"] },
+  { value: "Social Engineering", keywords: ["social engineering"] },
+  { value: "Brute Force", aliases: ["Brute Force Attack"] },
+  { value: "Race Condition Exploit", aliases: ["Race Condition"] },
+  { value: "Bank Run" },
+  { value: "Market Manipulation" },
+  { value: "Ponzi Scheme", aliases: ["Ponzi"], keywords: ["ponzi"] }
+]
+
+export const ENTITY_TYPES: TaxonomyTerm[] = [
+  { value: "DeFi" },
+  {
+    value: "Exchange",
+    aliases: ["CEX", "DEX", "Centralized Exchange", "Crypto Exchange"]
+  },
+  { value: "Custodian", wiki: "custodian.md" },
+  { value: "Lending Platform", aliases: ["Lending Protocol", "Lending"] },
+  { value: "Blockchain", aliases: ["Cryptocurrency", "Network"] },
+  { value: "Bridge", aliases: ["Cross-chain Bridge"] },
+  { value: "Yield Aggregator" },
+  { value: "Stablecoin" },
+  { value: "Wallet" },
+  { value: "GameFi", aliases: ["Gaming"] },
+  { value: "P2P" },
+  { value: "Token", aliases: ["Token Issuer"] },
+  { value: "Crypto Payment Platform", aliases: ["Payment Platform"] },
+  { value: "NFT", aliases: ["NFT Marketplace"] },
+  { value: "Gambling Platform", aliases: ["Casino"] },
+  { value: "Darknet", aliases: ["Darknet Market"] },
+  { value: "Market", aliases: ["Marketplace"] },
+  { value: "Hedge Fund" }
+]
+
+export const TAXONOMY: Record<TaxonomyField, TaxonomyTerm[]> = {
+  "attack-types": ATTACK_TYPES,
+  "entity-types": ENTITY_TYPES
+}
+
+// Attackers and attributions that end up in `attack-types`; they belong in
+// the Attackers section instead
+export const ATTACKER_NAMES = [
+  "Lazarus Group",
+  "Lazarus",
+  "North Korea",
+  "DPRK",
+  "APT38",
+  "TraderTraitor"
+]
@@ -0,0 +1,33 @@
+// GitHub lets deliveries be redelivered for a few days
+const RETENTION_PERIOD = 7 * 24 * 60 * 60 * 1000
+
+// One instance per webhook delivery (named by its X-GitHub-Delivery id). The
+// input gate serializes requests, so of two concurrent copies of a delivery
+// exactly one gets to record it.
+export class DeliveryLog implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+
+    if (request.method === "POST" && pathname === "/record") {
+      if (await this.state.storage.get<number>("receivedAt")) {
+        return Response.json({ recorded: false })
+      }
+      await this.state.storage.put("receivedAt", Date.now())
+      await this.state.storage.setAlarm(Date.now() + RETENTION_PERIOD)
+      return Response.json({ recorded: true })
+    }
+
+    if (request.method === "POST" && pathname === "/forget") {
+      await this.state.storage.deleteAll()
+      return Response.json({ recorded: false })
+    }
+
+    return new Response("Not found", { status: 404 })
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll()
+  }
+}
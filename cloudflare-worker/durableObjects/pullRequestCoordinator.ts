@@ -0,0 +1,182 @@
+import {
+  EnqueueResult,
+  PullRequestJob,
+  QueuedCheck,
+  QueuedCheckUpdate
+} from "../types"
+
+// 5-minute cooldown between checks
+const COOLDOWN_PERIOD = 5 * 60 * 1000
+
+// Checks are forgotten an hour after their last update
+const RETENTION_PERIOD = 60 * 60 * 1000
+
+// A consumer gets 15 minutes per attempt and retries back off for a few
+// minutes, so a check in progress that went this long without an update is
+// stuck and no longer blocks a new run
+const STALE_PERIOD = 30 * 60 * 1000
+
+// processing -> processing is a redelivery after the consumer died mid-run
+const TRANSITIONS: Record<QueuedCheck["status"], QueuedCheck["status"][]> = {
+  pending: ["pending", "processing", "failed", "cancelled"],
+  processing: ["pending", "processing", "completed", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: []
+}
+
+function isInProgress(check: QueuedCheck): boolean {
+  return check.status === "pending" || check.status === "processing"
+}
+
+function isStale(check: QueuedCheck): boolean {
+  return Date.now() - (check.updatedAt ?? check.timestamp) > STALE_PERIOD
+}
+
+// One instance per pull request (named `owner/repo#number`). Each request is
+// handled without awaiting anything but storage, so the input gate makes the
+// read-modify-write sequences below atomic.
+export class PullRequestCoordinator implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+
+    if (request.method === "POST" && pathname === "/enqueue") {
+      const job = (await request.json()) as PullRequestJob
+      return Response.json(await this.enqueue(job))
+    }
+
+    if (request.method === "POST" && pathname === "/update") {
+      const update = (await request.json()) as QueuedCheckUpdate
+      return this.update(update)
+    }
+
+    if (request.method === "GET" && pathname === "/status") {
+      return Response.json((await this.getCheck()) ?? null)
+    }
+
+    return new Response("Not found", { status: 404 })
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll()
+  }
+
+  private getCheck(): Promise<QueuedCheck | undefined> {
+    return this.state.storage.get<QueuedCheck>("check")
+  }
+
+  private async saveCheck(check: QueuedCheck): Promise<void> {
+    await this.state.storage.put("check", { ...check, updatedAt: Date.now() })
+    await this.state.storage.setAlarm(Date.now() + RETENTION_PERIOD)
+  }
+
+  private async enqueue(job: PullRequestJob): Promise<EnqueueResult> {
+    const check = await this.getCheck()
+    const inProgress = check && isInProgress(check)
+
+    // A push to the PR replaces whatever ran for the previous head commit,
+    // unless this is a redelivery for the commit already being checked
+    if (job.trigger === "push") {
+      if (inProgress && !isStale(check) && check.headSha === job.headSha) {
+        return {
+          status: `Check already in progress for ${job.headSha}`,
+          isNew: false
+        }
+      }
+      const checkId = await this.start(job, check)
+      return {
+        status: `> 🔄 **Article Check Started**\n\nChecking commit \`${job.headSha}\`.`,
+        isNew: true,
+        checkId,
+        superseded: inProgress ? check : undefined
+      }
+    }
+
+    if (check) {
+      const now = Date.now()
+
+      // If check is in progress
+      if (isInProgress(check) && !isStale(check)) {
+        return {
+          status: `> ⏳ **Article Check Status**: Check already in progress\n\nCurrent status: \`${check.status}\``,
+          isNew: false
+        }
+      }
+
+      if (now - check.timestamp < COOLDOWN_PERIOD) {
+        const waitTime = Math.ceil(
+          (COOLDOWN_PERIOD - (now - check.timestamp)) / 1000
+        )
+        return {
+          status: `> ⏰ **Cooldown Period**\n\nPlease wait \`${waitTime}\` seconds before requesting another check.\n\n_This helps prevent API rate limits and ensures thorough analysis._`,
+          isNew: false
+        }
+      }
+    }
+
+    const checkId = await this.start(job, check)
+    return {
+      status: `> 🔄 **Article Check Started**\n\nYour request has been queued and will be processed shortly.`,
+      isNew: true,
+      checkId
+    }
+  }
+
+  private async start(
+    job: PullRequestJob,
+    previous?: QueuedCheck
+  ): Promise<string> {
+    const checkId = crypto.randomUUID()
+    await this.saveCheck({
+      repository: job.repository,
+      prNumber: job.prNumber,
+      commentId: previous?.commentId,
+      timestamp: Date.now(),
+      status: "pending",
+      checkId,
+      trigger: job.trigger,
+      headSha: job.headSha
+    })
+    return checkId
+  }
+
+  private async update(update: QueuedCheckUpdate): Promise<Response> {
+    const check = await this.getCheck()
+
+    if (!check) {
+      return new Response("Check not found", { status: 404 })
+    }
+    if (update.checkId && update.checkId !== check.checkId) {
+      return new Response("Check was superseded by a newer run", {
+        status: 409
+      })
+    }
+    if (!TRANSITIONS[check.status].includes(update.status)) {
+      return new Response(
+        `Invalid status transition: ${check.status} -> ${update.status}`,
+        { status: 409 }
+      )
+    }
+
+    // Every delivery that starts processing counts, including those whose
+    // consumer never got to report back
+    if (update.status === "processing") {
+      check.attempts = (check.attempts ?? 0) + 1
+    }
+    check.status = update.status
+    if (update.result) {
+      check.result = update.result
+    }
+    if (update.checkRunId !== undefined) {
+      check.checkRunId = update.checkRunId
+    }
+    if (update.commentId !== undefined) {
+      check.commentId = update.commentId
+    }
+
+    await this.saveCheck(check)
+    return Response.json(check)
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  LedgerEntry,
+  RateLimitState,
+  TokenBudget,
+  UsageCommit,
+  UsageLedger,
+  UsageReservation,
+  UsageTotals
+} from "../types"
+
+// Reservations for calls that never committed or released are dropped
+const RESERVATION_TTL = 10 * 60 * 1000
+
+// Usage totals only matter for the current day and month; PR and contributor
+// ledger entries are dropped once unused for this long
+const LEDGER_RETENTION = 90 * 24 * 60 * 60 * 1000
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000
+
+export interface RateLimitDecision {
+  allowed: boolean
+  reason?: string
+  reservationId?: string
+  // Set when a per-minute limit refused the call: it may be retried once the
+  // window resets. Budget refusals are final.
+  retryAfterMs?: number
+}
+
+interface StoredReservation extends UsageReservation {
+  createdAt: number
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUSD: 0
+}
+
+function addUsage(totals: UsageTotals, commit: UsageCommit): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + commit.usage.inputTokens,
+    outputTokens: totals.outputTokens + commit.usage.outputTokens,
+    costUSD: totals.costUSD + commit.costUSD
+  }
+}
+
+interface OpenReservations {
+  // Across all repositories, for the per-minute limits
+  inputTokens: number
+  outputTokens: number
+  // For the reserving repository's budget
+  repositoryTokens: number
+  repositoryCostUSD: number
+}
+
+function periodKeys(repository: string, now = new Date()) {
+  const day = now.toISOString().slice(0, 10)
+  return {
+    day: `usage:${repository}:${day}`,
+    month: `usage:${repository}:${day.slice(0, 7)}`
+  }
+}
+
+// A single global instance (named "global") counts LLM usage across all
+// pull requests, so concurrent checks cannot both slip under the limit.
+// Calls reserve their worst case up front and commit the usage the
+// provider reports afterwards; the committed usage also feeds the ledger.
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+
+    if (request.method === "POST" && url.pathname === "/reserve") {
+      const reservation = (await request.json()) as UsageReservation
+      return Response.json(await this.reserve(reservation))
+    }
+
+    if (request.method === "POST" && url.pathname === "/commit") {
+      const commit = (await request.json()) as UsageCommit
+      await this.commit(commit)
+      return Response.json({ allowed: true })
+    }
+
+    if (request.method === "POST" && url.pathname === "/release") {
+      const { reservationId } = (await request.json()) as {
+        reservationId: string
+      }
+      await this.state.storage.delete(`reservation:${reservationId}`)
+      return Response.json({ allowed: true })
+    }
+
+    if (request.method === "GET" && url.pathname === "/ledger") {
+      const repository = url.searchParams.get("repository")
+      if (!repository) {
+        return new Response("Missing repository", { status: 400 })
+      }
+      return Response.json(await this.getLedger(repository))
+    }
+
+    return new Response("Not found", { status: 404 })
+  }
+
+  async alarm(): Promise<void> {
+    const now = new Date()
+    const day = now.toISOString().slice(0, 10)
+    const month = day.slice(0, 7)
+    let remaining = 0
+
+    const usage = await this.state.storage.list<UsageTotals>({
+      prefix: "usage:"
+    })
+    for (const key of usage.keys()) {
+      if (key.endsWith(`:${day}`) || key.endsWith(`:${month}`)) {
+        remaining++
+      } else {
+        await this.state.storage.delete(key)
+      }
+    }
+
+    const ledger = await this.state.storage.list<LedgerEntry>({
+      prefix: "ledger:"
+    })
+    for (const [key, entry] of ledger) {
+      if (now.getTime() - entry.updatedAt > LEDGER_RETENTION) {
+        await this.state.storage.delete(key)
+      } else {
+        remaining++
+      }
+    }
+
+    // Once everything is gone the next commit schedules the alarm again
+    if (remaining > 0) {
+      await this.state.storage.setAlarm(now.getTime() + PRUNE_INTERVAL)
+    }
+  }
+
+  private async getState(): Promise<RateLimitState> {
+    const state = await this.state.storage.get<RateLimitState>("state")
+    const now = Date.now()
+
+    // Reset counters if a minute has passed
+    if (!state || now - state.timestamp >= 60000) {
+      return {
+        requestCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        timestamp: now
+      }
+    }
+    return state
+  }
+
+  private async getTotals(key: string): Promise<UsageTotals> {
+    return (await this.state.storage.get<UsageTotals>(key)) ?? EMPTY_TOTALS
+  }
+
+  // Tokens and cost of the calls still running, dropping expired ones
+  private async getReserved(repository: string): Promise<OpenReservations> {
+    const reservations = await this.state.storage.list<StoredReservation>({
+      prefix: "reservation:"
+    })
+    const now = Date.now()
+    const reserved: OpenReservations = {
+      inputTokens: 0,
+      outputTokens: 0,
+      repositoryTokens: 0,
+      repositoryCostUSD: 0
+    }
+
+    for (const [key, reservation] of reservations) {
+      if (now - reservation.createdAt > RESERVATION_TTL) {
+        await this.state.storage.delete(key)
+        continue
+      }
+      reserved.inputTokens += reservation.estimatedInputTokens
+      reserved.outputTokens += reservation.maxOutputTokens
+      if (reservation.repository === repository) {
+        reserved.repositoryTokens +=
+          reservation.estimatedInputTokens + reservation.maxOutputTokens
+        reserved.repositoryCostUSD += reservation.estimatedCostUSD
+      }
+    }
+    return reserved
+  }
+
+  private checkBudget(
+    budget: TokenBudget,
+    day: UsageTotals,
+    month: UsageTotals,
+    tokens: number,
+    costUSD: number
+  ): string | null {
+    const dayTokens = day.inputTokens + day.outputTokens + tokens
+    const monthTokens = month.inputTokens + month.outputTokens + tokens
+
+    if (budget.tokensPerDay !== undefined && dayTokens > budget.tokensPerDay) {
+      return `Budget exceeded: daily limit of ${budget.tokensPerDay} tokens reached`
+    }
+    if (
+      budget.tokensPerMonth !== undefined &&
+      monthTokens > budget.tokensPerMonth
+    ) {
+      return `Budget exceeded: monthly limit of ${budget.tokensPerMonth} tokens reached`
+    }
+    if (
+      budget.costPerDayUSD !== undefined &&
+      day.costUSD + costUSD > budget.costPerDayUSD
+    ) {
+      return `Budget exceeded: daily limit of $${budget.costPerDayUSD} reached`
+    }
+    if (
+      budget.costPerMonthUSD !== undefined &&
+      month.costUSD + costUSD > budget.costPerMonthUSD
+    ) {
+      return `Budget exceeded: monthly limit of $${budget.costPerMonthUSD} reached`
+    }
+    return null
+  }
+
+  private async reserve(
+    reservation: UsageReservation
+  ): Promise<RateLimitDecision> {
+    const { limits } = reservation
+    const state = await this.getState()
+    const reserved = await this.getReserved(reservation.repository)
+    const retryAfterMs = Math.max(60000 - (Date.now() - state.timestamp), 0)
+
+    // Check limits. Calls still running count with their reservations, since
+    // their tokens land in the window only when they commit.
+    if (state.requestCount >= limits.requestsPerMinute) {
+      return {
+        allowed: false,
+        reason: "Rate limit exceeded: Too many requests per minute",
+        retryAfterMs
+      }
+    }
+    if (
+      state.inputTokens +
+        reserved.inputTokens +
+        reservation.estimatedInputTokens >
+      limits.inputTokensPerMinute
+    ) {
+      return {
+        allowed: false,
+        reason: "Rate limit exceeded: Too many input tokens per minute",
+        // Waiting does not help a call that is over the limit on its own
+        retryAfterMs:
+          reservation.estimatedInputTokens <= limits.inputTokensPerMinute
+            ? retryAfterMs
+            : undefined
+      }
+    }
+    if (
+      state.outputTokens + reserved.outputTokens + reservation.maxOutputTokens >
+      limits.outputTokensPerMinute
+    ) {
+      return {
+        allowed: false,
+        reason: "Rate limit exceeded: Too many output tokens per minute",
+        retryAfterMs:
+          reservation.maxOutputTokens <= limits.outputTokensPerMinute
+            ? retryAfterMs
+            : undefined
+      }
+    }
+
+    const keys = periodKeys(reservation.repository)
+    const reason = this.checkBudget(
+      reservation.budget,
+      await this.getTotals(keys.day),
+      await this.getTotals(keys.month),
+      reserved.repositoryTokens +
+        reservation.estimatedInputTokens +
+        reservation.maxOutputTokens,
+      reserved.repositoryCostUSD + reservation.estimatedCostUSD
+    )
+    if (reason) {
+      return { allowed: false, reason }
+    }
+
+    // Count the request now; tokens are added when the call commits
+    state.requestCount++
+    await this.state.storage.put("state", state)
+
+    const reservationId = crypto.randomUUID()
+    await this.state.storage.put<StoredReservation>(
+      `reservation:${reservationId}`,
+      { ...reservation, createdAt: Date.now() }
+    )
+    return { allowed: true, reservationId }
+  }
+
+  private async commit(commit: UsageCommit): Promise<void> {
+    await this.state.storage.delete(`reservation:${commit.reservationId}`)
+
+    const state = await this.getState()
+    state.inputTokens += commit.usage.inputTokens
+    state.outputTokens += commit.usage.outputTokens
+    await this.state.storage.put("state", state)
+
+    const keys = {
+      ...periodKeys(commit.repository),
+      pr: `ledger:pr:${commit.repository}#${commit.prNumber}`,
+      contributor: `ledger:contributor:${commit.repository}:${
+        commit.contributor ?? "unknown"
+      }`
+    }
+    for (const key of Object.values(keys)) {
+      const totals = addUsage(await this.getTotals(key), commit)
+      const entry: LedgerEntry = { ...totals, updatedAt: Date.now() }
+      await this.state.storage.put(key, entry)
+    }
+
+    if ((await this.state.storage.getAlarm()) === null) {
+      await this.state.storage.setAlarm(Date.now() + PRUNE_INTERVAL)
+    }
+  }
+
+  private async getLedger(repository: string): Promise<UsageLedger> {
+    const keys = periodKeys(repository)
+    const prs = await this.state.storage.list<LedgerEntry>({
+      prefix: `ledger:pr:${repository}#`
+    })
+    const contributors = await this.state.storage.list<LedgerEntry>({
+      prefix: `ledger:contributor:${repository}:`
+    })
+
+    return {
+      repository,
+      today: await this.getTotals(keys.day),
+      thisMonth: await this.getTotals(keys.month),
+      pullRequests: Object.fromEntries(
+        [...prs].map(([key, entry]) => [key.split("#").pop(), entry])
+      ),
+      contributors: Object.fromEntries(
+        [...contributors].map(([key, entry]) => [
+          key.slice(`ledger:contributor:${repository}:`.length),
+          entry
+        ])
+      )
+    }
+  }
+}
@@ -1,137 +1,233 @@
 import { Octokit } from "@octokit/rest"
-import { Env, PullRequestJob } from "@/types"
-import { runQualityChecks } from "@/services/qualityChecks"
-import { verifyGitHubWebhook } from "@/utils/webhookVerification"
+import {
+  Commenter,
+  CommitJob,
+  Env,
+  PullRequestEventPayload,
+  PullRequestJob,
+  WebhookDelivery,
+  WebhookPayloads
+} from "@/types"
+import {
+  forgetDelivery,
+  readWebhook,
+  recordDelivery
+} from "@/services/webhookRequest"
 import { QueueManager } from "@/services/queueManager"
+import { handleCheckBatch } from "@/services/checkProcessor"
+import { createOctokit, getBotLogin } from "@/services/githubAuth"
+import { createCheckRun, supersedeCheckRun } from "@/services/checkRuns"
+import { handleCommand } from "@/services/commandHandler"
+import { parseCommand } from "@/utils/commandParser"
+import {
+  authorizeCommand,
+  listDenials,
+  recordDenial
+} from "@/services/permissions"
+
+// Pull request actions that change the head commit
+const PUSH_ACTIONS = ["opened", "synchronize", "reopened"]
+
+function isAdminRequest(request: Request, env: Env): boolean {
+  return (
+    !!env.ADMIN_TOKEN &&
+    request.headers.get("authorization") === `Bearer ${env.ADMIN_TOKEN}`
+  )
+}
 
-export default {
-  async fetch(
-    request: Request,
-    env: Env,
-    ctx: ExecutionContext
-  ): Promise<Response> {
-    console.log("Received webhook request")
+// GitHub sends the payload that goes with the X-GitHub-Event header
+function isEvent<Event extends keyof WebhookPayloads>(
+  delivery: WebhookDelivery,
+  event: Event
+): delivery is WebhookDelivery<WebhookPayloads[Event]> {
+  return delivery.event === event
+}
 
-    try {
-      // Verify GitHub webhook signature
-      const rawBody = await request.clone().text()
-      const signature = request.headers.get("x-hub-signature-256")
+async function handleLedgerRequest(url: URL, env: Env): Promise<Response> {
+  const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName("global"))
+  return limiter.fetch(`https://rate-limiter/ledger${url.search}`)
+}
 
-      if (
-        !signature ||
-        !(await verifyGitHubWebhook(rawBody, signature, env.WEBHOOK_SECRET))
-      ) {
-        console.error("Invalid signature")
-        return new Response("Invalid signature", { status: 401 })
-      }
+// Every push gets its own check run; the run for the previous head commit is
+// closed as cancelled. Pushes the author may not check themselves leave a
+// queued run that a reviewer's `/articlecheck` picks up.
+async function handlePullRequestEvent(
+  payload: PullRequestEventPayload,
+  env: Env,
+  octokit: Octokit
+): Promise<Response> {
+  const job: CommitJob = {
+    repository: payload.repository.full_name,
+    prNumber: payload.pull_request.number,
+    trigger: "push",
+    headSha: payload.pull_request.head.sha,
+    installationId: payload.installation?.id
+  }
 
-      const payload = JSON.parse(rawBody)
-      console.log("Event type:", request.headers.get("x-github-event"))
-      console.log("Payload:", payload)
+  // Pushes spend LLM budget like `/articlecheck`, so the author rules apply
+  const author: Commenter = {
+    login: payload.pull_request.user.login,
+    association: payload.pull_request.author_association,
+    isAuthor: true
+  }
+  const decision = await authorizeCommand(
+    octokit,
+    env,
+    job.repository,
+    author,
+    "run"
+  )
+  if (!decision.allowed) {
+    const reason = decision.reason ?? "Not authorized"
+    await recordDenial(env, job, author, "run", reason)
+    await createCheckRun(octokit, job, {
+      title: "Waiting for a reviewer",
+      summary: `${reason}. A reviewer can start it with \`/articlecheck\`.`
+    })
+    return new Response(reason, { status: 200 })
+  }
 
-      // Initialize GitHub client
-      const octokit = new Octokit({
-        auth: env.PAT_TOKEN
-      })
+  const queueManager = new QueueManager(env)
+  const { status, isNew, checkId, superseded } =
+    await queueManager.enqueueCheck(job)
 
-      // Process article check request
-      if (
-        request.headers.get("x-github-event") === "issue_comment" &&
-        payload.comment?.body?.includes("/articlecheck")
-      ) {
-        const job: PullRequestJob = {
-          repository: payload.repository.full_name,
-          prNumber: payload.issue.number,
-          commentId: payload.comment.id
-        }
+  if (!isNew) {
+    return new Response(status, { status: 200 })
+  }
+  job.checkId = checkId
 
-        // Initialize queue manager
-        const queueManager = new QueueManager(env)
+  if (superseded?.checkRunId && superseded.headSha) {
+    try {
+      await supersedeCheckRun(
+        octokit,
+        job.repository,
+        superseded.checkRunId,
+        job.headSha
+      )
+    } catch (error) {
+      console.error("Error closing superseded check run:", error)
+    }
+  }
 
-        // Clean old checks periodically
-        ctx.waitUntil(queueManager.cleanOldChecks())
+  try {
+    job.checkRunId = await createCheckRun(octokit, job)
+    await queueManager.updateCheckStatus(job, "pending", undefined, {
+      checkRunId: job.checkRunId
+    })
+    await env.CHECK_QUEUE.send(job)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred"
+    await queueManager.updateCheckStatus(job, "failed", errorMessage)
+    throw error
+  }
 
-        // Try to enqueue the check
-        const { status, isNew } = await queueManager.enqueueCheck(job)
+  return new Response("Article check queued", { status: 202 })
+}
 
-        // If check is already in progress, return status
-        if (!isNew) {
-          await octokit.issues.createComment({
-            owner: payload.repository.owner.login,
-            repo: payload.repository.name,
-            issue_number: payload.issue.number,
-            body: status
-          })
-          return new Response(status, { status: 200 })
-        }
+// Routes a verified delivery. Events and actions the worker has no use for
+// (ping, installation, edited comments, ...) are acknowledged with a 2xx.
+async function handleWebhook(
+  delivery: WebhookDelivery,
+  env: Env
+): Promise<Response> {
+  if (delivery.event === "ping") {
+    return new Response("pong")
+  }
 
-        try {
-          // Update status to processing
-          await queueManager.updateCheckStatus(job, "processing")
-
-          // Run quality checks
-          const results = await runQualityChecks(job, env, octokit)
-
-          // Format and post results
-          const comment = formatResults(results)
-          await octokit.issues.createComment({
-            owner: payload.repository.owner.login,
-            repo: payload.repository.name,
-            issue_number: payload.issue.number,
-            body: comment
-          })
-
-          // Update status to completed
-          await queueManager.updateCheckStatus(job, "completed", comment)
-
-          return new Response("Article check completed", { status: 200 })
-        } catch (error) {
-          // Update status to failed
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error occurred"
-          await queueManager.updateCheckStatus(job, "failed", errorMessage)
-          throw error
-        }
-      }
+  if (
+    isEvent(delivery, "pull_request") &&
+    PUSH_ACTIONS.includes(delivery.payload.action)
+  ) {
+    // Answer as the app installation the event came from
+    const octokit = await createOctokit(env, delivery.payload.installation?.id)
+    return await handlePullRequestEvent(delivery.payload, env, octokit)
+  }
 
-      return new Response("OK")
-    } catch (error) {
-      console.error("Error processing request:", error)
-      const message =
-        error instanceof Error ? error.message : "Unknown error occurred"
-      return new Response(message, { status: 500 })
+  // Commands only count at the start of a line of a new PR comment. The
+  // worker's own comments document them and are skipped by author, since
+  // people quote them when replying.
+  if (
+    isEvent(delivery, "issue_comment") &&
+    delivery.payload.action === "created" &&
+    delivery.payload.issue.pull_request
+  ) {
+    const { comment, issue, repository, installation } = delivery.payload
+    const command = parseCommand(comment.body ?? "")
+    if (
+      command &&
+      comment.user.login !== (await getBotLogin(env, installation?.id))
+    ) {
+      const job: PullRequestJob = {
+        repository: repository.full_name,
+        prNumber: issue.number,
+        commentId: comment.id,
+        trigger: "comment",
+        installationId: installation?.id
+      }
+      const commenter: Commenter = {
+        login: comment.user.login,
+        association: comment.author_association,
+        isAuthor: comment.user.login === issue.user.login
+      }
+      const octokit = await createOctokit(env, installation?.id)
+      return await handleCommand(command, job, commenter, env, octokit)
     }
   }
+
+  return new Response(`Ignored ${delivery.event} event`)
 }
 
-function formatResults(results: any[]): string {
-  let comment = "# 🔍 Article Quality Check Results\n\n"
+export { PullRequestCoordinator } from "@/durableObjects/pullRequestCoordinator"
+export { RateLimiter } from "@/durableObjects/rateLimiter"
+export { DeliveryLog } from "@/durableObjects/deliveryLog"
 
-  results.forEach((result, index) => {
-    comment += `## Check ${index + 1}\n\n`
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    try {
+      // Spend ledger and denied command audit log for maintainers:
+      // GET /ledger?repository=owner/repo, GET /audit?repository=owner/repo
+      const url = new URL(request.url)
+      if (
+        request.method === "GET" &&
+        (url.pathname === "/ledger" || url.pathname === "/audit")
+      ) {
+        if (!isAdminRequest(request, env)) {
+          return new Response("Unauthorized", { status: 401 })
+        }
+        if (url.pathname === "/ledger") {
+          return await handleLedgerRequest(url, env)
+        }
+        const repository = url.searchParams.get("repository") ?? undefined
+        return Response.json(await listDenials(env, repository))
+      }
 
-    // Status with colored blockquote
-    if (result.passed) {
-      comment += `> ✅ **Status**: PASS\n\n`
-    } else {
-      comment += `> ❌ **Status**: FAIL\n\n`
-    }
+      const delivery = await readWebhook(request, env)
+      if (delivery instanceof Response) {
+        return delivery
+      }
+      console.log(`Received ${delivery.event} delivery ${delivery.deliveryId}`)
 
-    // Details with colored blockquote based on status
-    comment += `**Details**:\n${result.details}\n\n`
+      if (!(await recordDelivery(env, delivery.deliveryId))) {
+        return new Response("Duplicate delivery", { status: 200 })
+      }
 
-    if (result.suggestions && result.suggestions.length > 0) {
-      comment += "**💡 Suggestions**:\n"
-      result.suggestions.forEach((suggestion: string) => {
-        comment += `- ${suggestion}\n`
-      })
-      comment += "\n"
+      try {
+        return await handleWebhook(delivery, env)
+      } catch (error) {
+        await forgetDelivery(env, delivery.deliveryId)
+        throw error
+      }
+    } catch (error) {
+      console.error("Error processing request:", error)
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred"
+      return new Response(message, { status: 500 })
     }
-  })
-
-  // Add footer
-  comment += "---\n"
-  comment += "_Powered by DNI Article Checker_"
+  },
 
-  return comment
+  async queue(batch: MessageBatch<PullRequestJob>, env: Env): Promise<void> {
+    console.log(`Received ${batch.messages.length} job(s) from ${batch.queue}`)
+    await handleCheckBatch(batch, env)
+  }
 }
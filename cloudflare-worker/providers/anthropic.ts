@@ -0,0 +1,58 @@
+import Anthropic from "@anthropic-ai/sdk"
+import { LLMProvider, LLMRequest, LLMResponse } from "../types"
+import { isRetryableStatus, LLMProviderError } from "./providerError"
+
+export class AnthropicProvider implements LLMProvider {
+  name = "anthropic" as const
+  private client: Anthropic
+
+  constructor(apiKey: string) {
+    // Retries and timeouts are handled by the LLM client
+    this.client = new Anthropic({ apiKey, maxRetries: 0 })
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // The Messages API takes the system prompt separately
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n")
+    const messages = request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({
+        role: message.role as "user" | "assistant",
+        content: message.content
+      }))
+
+    try {
+      const result = await this.client.messages.create(
+        {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          system: system || undefined,
+          messages
+        },
+        { signal: request.signal }
+      )
+
+      return {
+        content: result.content.map((block) => block.text).join(""),
+        provider: this.name,
+        model: result.model,
+        usage: {
+          inputTokens: result.usage.input_tokens,
+          outputTokens: result.usage.output_tokens
+        }
+      }
+    } catch (error) {
+      if (error instanceof Anthropic.APIError) {
+        throw new LLMProviderError(
+          `Anthropic API error: ${error.status ?? "network"} - ${error.message}`,
+          this.name,
+          error.status === undefined || isRetryableStatus(error.status)
+        )
+      }
+      throw error
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Env, LLMProvider, LLMProviderName } from "../types"
+import { AnthropicProvider } from "./anthropic"
+import { MockProvider } from "./mock"
+import { OpenRouterProvider } from "./openRouter"
+import { WorkersAIProvider } from "./workersAI"
+
+export { LLMLimitError, LLMProviderError } from "./providerError"
+
+export function createProvider(name: LLMProviderName, env: Env): LLMProvider {
+  switch (name) {
+    case "openrouter":
+      return new OpenRouterProvider(env.OPENROUTER_API_KEY)
+    case "anthropic":
+      if (!env.CLAUDE_API_KEY) {
+        throw new Error("CLAUDE_API_KEY is not configured")
+      }
+      return new AnthropicProvider(env.CLAUDE_API_KEY)
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("The AI binding is not configured")
+      }
+      return new WorkersAIProvider(env.AI)
+    case "mock":
+      return new MockProvider()
+  }
+}
@@ -0,0 +1,45 @@
+import { LLMProvider, LLMRequest, LLMResponse } from "../types"
+import { REVIEW_CRITERIA } from "../schemas/reviewSchema"
+
+export type MockResponder = (request: LLMRequest) => string
+
+// A well-formed review that fails every criterion, so offline runs exercise
+// the full reporting path without claiming an article passed
+const defaultResponder: MockResponder = () =>
+  JSON.stringify({
+    verdict: "FAIL",
+    summary: "Offline review generated by the mock LLM provider.",
+    criteria: REVIEW_CRITERIA.map((criterion) => ({
+      id: criterion.id,
+      passed: false,
+      evidence: [],
+      feedback: "Not reviewed (mock provider)."
+    })),
+    missing: [],
+    suggestions: []
+  })
+
+// Deterministic, network-free provider for tests and local development
+export class MockProvider implements LLMProvider {
+  name = "mock" as const
+
+  constructor(private responder: MockResponder = defaultResponder) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const content = this.responder(request)
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        inputTokens: Math.ceil(
+          request.messages.reduce(
+            (total, message) => total + message.content.length,
+            0
+          ) / 4
+        ),
+        outputTokens: Math.ceil(content.length / 4)
+      }
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  OpenRouterResponse
+} from "../types"
+import { isRetryableStatus, LLMProviderError } from "./providerError"
+
+export class OpenRouterProvider implements LLMProvider {
+  name = "openrouter" as const
+
+  constructor(private apiKey: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await fetch(
+      "https://openrouter.ai/api/v1/chat/completions",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+          "HTTP-Referer": "https://github.com/r-log/clodflare-worker",
+          "X-Title": "DNI Article Checker"
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          response_format: request.json ? { type: "json_object" } : undefined,
+          messages: request.messages
+        }),
+        signal: request.signal
+      }
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new LLMProviderError(
+        `OpenRouter API error: ${response.status} - ${errorText}`,
+        this.name,
+        isRetryableStatus(response.status)
+      )
+    }
+
+    const result = (await response.json()) as OpenRouterResponse
+
+    if (!result.choices?.[0]?.message?.content) {
+      console.error("Unexpected OpenRouter API response structure:", result)
+      throw new LLMProviderError(
+        "Invalid response structure from OpenRouter API",
+        this.name,
+        true
+      )
+    }
+
+    return {
+      content: result.choices[0].message.content,
+      provider: this.name,
+      model: request.model,
+      usage: result.usage && {
+        inputTokens: result.usage.prompt_tokens,
+        outputTokens: result.usage.completion_tokens
+      }
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { LLMProviderName } from "../types"
+
+// Thrown by providers so the LLM client can tell transient failures
+// (timeouts, 429, 5xx) from ones a retry will not fix (bad key, bad request)
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public retryable: boolean
+  ) {
+    super(message)
+    this.name = "LLMProviderError"
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// Thrown by the LLM client when the rate limiter or a budget refuses a call.
+// Per-minute limits are retryable, budgets are not.
+export class LLMLimitError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean
+  ) {
+    super(message)
+    this.name = "LLMLimitError"
+  }
+}
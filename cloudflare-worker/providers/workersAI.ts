@@ -0,0 +1,71 @@
+import { Env, LLMProvider, LLMRequest, LLMResponse } from "../types"
+import { LLMProviderError } from "./providerError"
+
+// Returned next to the response, though the binding's types leave it out
+interface WorkersAIUsage {
+  prompt_tokens: number
+  completion_tokens: number
+}
+
+function hasUsage(output: object): output is { usage: WorkersAIUsage } {
+  if (
+    !("usage" in output) ||
+    !output.usage ||
+    typeof output.usage !== "object"
+  ) {
+    return false
+  }
+  const usage = output.usage
+  return (
+    "prompt_tokens" in usage &&
+    typeof usage.prompt_tokens === "number" &&
+    "completion_tokens" in usage &&
+    typeof usage.completion_tokens === "number"
+  )
+}
+
+export class WorkersAIProvider implements LLMProvider {
+  name = "workers-ai" as const
+
+  constructor(private ai: NonNullable<Env["AI"]>) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let result: AiTextGenerationOutput
+    try {
+      result = await this.ai.run(request.model, {
+        messages: request.messages,
+        max_tokens: request.maxTokens
+      })
+    } catch (error) {
+      throw new LLMProviderError(
+        `Workers AI error: ${error instanceof Error ? error.message : error}`,
+        this.name,
+        true
+      )
+    }
+
+    // Only streamed requests get a stream back
+    if (
+      result instanceof ReadableStream ||
+      typeof result?.response !== "string"
+    ) {
+      throw new LLMProviderError(
+        "Invalid response structure from Workers AI",
+        this.name,
+        true
+      )
+    }
+
+    return {
+      content: result.response,
+      provider: this.name,
+      model: request.model,
+      usage: hasUsage(result)
+        ? {
+            inputTokens: result.usage.prompt_tokens,
+            outputTokens: result.usage.completion_tokens
+          }
+        : undefined
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { ArticleSchema } from "../types"
+
+export const INCIDENT_SCHEMA: ArticleSchema = {
+  id: "incident",
+  name: "Cyberattack incident",
+  pathPattern: /^content\/research\/cyberattacks\/incidents\/(?!_index\.md$)/,
+  frontMatter: [
+    { key: "date", type: "date", required: true },
+    { key: "target-entities", type: "list", required: true },
+    { key: "entity-types", type: "list", required: true },
+    { key: "attack-types", type: "list", required: true },
+    { key: "title", type: "string", required: true },
+    { key: "loss", type: "number", required: true, allowUnknown: true },
+    { key: "tags", type: "list", required: false }
+  ],
+  sections: [
+    { title: "Summary", level: 2, required: true },
+    {
+      title: "Attackers",
+      level: 2,
+      required: true,
+      aliases: ["Attacker"]
+    },
+    { title: "Losses", level: 2, required: true },
+    { title: "Timeline", level: 2, required: true },
+    { title: "Security Failure Causes", level: 2, required: false },
+    { title: "Early Indicators", level: 2, required: false }
+  ],
+  allowTitleHeading: false
+}
+
+export const WIKI_SCHEMA: ArticleSchema = {
+  id: "wiki",
+  name: "Attack vector wiki page",
+  pathPattern: /^content\/research\/cyberattacks\/wiki\//,
+  frontMatter: [
+    { key: "title", type: "string", required: true },
+    { key: "bookToc", type: "string", required: false }
+  ],
+  sections: [],
+  allowTitleHeading: false
+}
+
+export const MARKET_HEALTH_SCHEMA: ArticleSchema = {
+  id: "market-health",
+  name: "Market health post",
+  pathPattern: /^content\/research\/market-health\/posts\/(?!_index\.md$)/,
+  frontMatter: [
+    { key: "title", type: "string", required: true },
+    { key: "date", type: "date", required: true },
+    { key: "description", type: "string", required: false },
+    { key: "entities", type: "list", required: false }
+  ],
+  sections: [],
+  allowTitleHeading: false
+}
+
+// Fallback for markdown files outside the known content types
+export const GENERIC_SCHEMA: ArticleSchema = {
+  id: "generic",
+  name: "Markdown page",
+  pathPattern: /\.md$/,
+  frontMatter: [{ key: "title", type: "string", required: true }],
+  sections: [],
+  allowTitleHeading: false
+}
+
+export const ARTICLE_SCHEMAS: ArticleSchema[] = [
+  INCIDENT_SCHEMA,
+  WIKI_SCHEMA,
+  MARKET_HEALTH_SCHEMA
+]
+
+export function getSchemaForPath(path: string): ArticleSchema {
+  return (
+    ARTICLE_SCHEMAS.find((schema) => schema.pathPattern.test(path)) ??
+    GENERIC_SCHEMA
+  )
+}
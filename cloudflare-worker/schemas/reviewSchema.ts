@@ -0,0 +1,198 @@
+import { CriterionAssessment, ReviewVerdict } from "../types"
+
+export interface ReviewCriterion {
+  id: string
+  name: string
+  requirements: string[]
+}
+
+export const REVIEW_CRITERIA: ReviewCriterion[] = [
+  {
+    id: "attack-description",
+    name: "Attack description",
+    requirements: [
+      "Date and target protocol clearly identified",
+      "Attack vector specifically named and explained",
+      "Step-by-step attack flow with technical details",
+      "Clear timeline of events with UTC timestamps"
+    ]
+  },
+  {
+    id: "technical-analysis",
+    name: "Technical analysis",
+    requirements: [
+      "Vulnerable code snippets with proper syntax highlighting",
+      "Exploit code or detailed attack mechanism",
+      "Clear explanation of the vulnerability root cause",
+      "Specific security principles or patterns that were violated"
+    ]
+  },
+  {
+    id: "impact",
+    name: "Impact assessment",
+    requirements: [
+      "Exact financial losses in USD and cryptocurrency amounts",
+      "Number of affected users/accounts with specifics",
+      "Market impact (TVL change, token price effects)",
+      "Broader ecosystem implications"
+    ]
+  },
+  {
+    id: "references",
+    name: "References",
+    requirements: [
+      "Transaction hash(es) with links",
+      "Official protocol post-mortem",
+      "Independent security analysis from reputable firms",
+      "All links must be properly formatted and accessible"
+    ]
+  },
+  {
+    id: "mitigation",
+    name: "Mitigation details",
+    requirements: [
+      "Fixed/patched code examples",
+      "Specific security improvements implemented",
+      "Timeline of fixes and updates",
+      "Measures to prevent similar attacks"
+    ]
+  }
+]
+
+// Shown to the model verbatim; validateReviewVerdict enforces the same shape
+export const REVIEW_RESPONSE_FORMAT = `{
+  "verdict": "PASS" | "FAIL",
+  "summary": string,
+  "criteria": [
+    {
+      "id": ${REVIEW_CRITERIA.map((criterion) => `"${criterion.id}"`).join(
+        " | "
+      )},
+      "passed": boolean,
+      "evidence": string[],  // short verbatim quotes from the article
+      "feedback": string
+    }
+  ],
+  "missing": string[],
+  "suggestions": string[]
+}`
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+function validateCriterion(value: unknown, index: number): string[] {
+  const path = `criteria[${index}]`
+  if (typeof value !== "object" || value === null) {
+    return [`${path} must be an object`]
+  }
+
+  const criterion = value as Record<string, unknown>
+  const errors: string[] = []
+  if (!REVIEW_CRITERIA.some((known) => known.id === criterion.id)) {
+    errors.push(`${path}.id must be one of the listed criterion ids`)
+  }
+  if (typeof criterion.passed !== "boolean") {
+    errors.push(`${path}.passed must be a boolean`)
+  }
+  if (!isStringArray(criterion.evidence)) {
+    errors.push(`${path}.evidence must be an array of strings`)
+  }
+  if (typeof criterion.feedback !== "string") {
+    errors.push(`${path}.feedback must be a string`)
+  }
+  return errors
+}
+
+export function validateReviewVerdict(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["response must be a JSON object"]
+  }
+
+  const verdict = value as Record<string, unknown>
+  const errors: string[] = []
+
+  if (verdict.verdict !== "PASS" && verdict.verdict !== "FAIL") {
+    errors.push('verdict must be "PASS" or "FAIL"')
+  }
+  if (typeof verdict.summary !== "string") {
+    errors.push("summary must be a string")
+  }
+  if (!isStringArray(verdict.missing)) {
+    errors.push("missing must be an array of strings")
+  }
+  if (!isStringArray(verdict.suggestions)) {
+    errors.push("suggestions must be an array of strings")
+  }
+
+  if (!Array.isArray(verdict.criteria)) {
+    errors.push("criteria must be an array")
+  } else {
+    verdict.criteria.forEach((criterion, index) => {
+      errors.push(...validateCriterion(criterion, index))
+    })
+    const ids = verdict.criteria.map(
+      (criterion) => (criterion as Record<string, unknown>)?.id
+    )
+    REVIEW_CRITERIA.filter((criterion) => !ids.includes(criterion.id)).forEach(
+      (criterion) => {
+        errors.push(`criteria is missing an entry for "${criterion.id}"`)
+      }
+    )
+  }
+
+  return errors
+}
+
+// Models often wrap JSON in a ```json fence or add a sentence around it
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) {
+    return fenced[1].trim()
+  }
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text
+}
+
+export interface ParsedReview {
+  verdict: ReviewVerdict | null
+  errors: string[]
+}
+
+export function parseReviewResponse(text: string): ParsedReview {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    value = undefined
+  }
+
+  try {
+    value ??= JSON.parse(extractJson(text))
+  } catch (error) {
+    return {
+      verdict: null,
+      errors: [
+        `response is not valid JSON: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      ]
+    }
+  }
+
+  const errors = validateReviewVerdict(value)
+  if (errors.length > 0) {
+    return { verdict: null, errors }
+  }
+
+  const verdict = value as ReviewVerdict
+  // Attach display names and keep the criteria in the declared order
+  verdict.criteria = REVIEW_CRITERIA.map((criterion) => {
+    const assessment = verdict.criteria.find(
+      (item) => item.id === criterion.id
+    ) as CriterionAssessment
+    return { ...assessment, name: criterion.name }
+  })
+  return { verdict, errors: [] }
+}
@@ -0,0 +1,25 @@
+// Regenerates data/incidentIndex.json from the incident articles so the
+// duplicate check runs without fetching the corpus: `npm run build-index`.
+// The wrangler build runs it, so deployed workers index the current content.
+// vite-node runs it, so the entries come from the worker's own parser.
+import { readdir, readFile, writeFile } from "node:fs/promises"
+import { buildIncidentIndex } from "../utils/incidentIndex.ts"
+
+const INCIDENTS_PATH = "content/research/cyberattacks/incidents/"
+const ROOT = new URL("../../", import.meta.url)
+const OUTPUT = new URL("../data/incidentIndex.json", import.meta.url)
+
+const articles = []
+for (const file of await readdir(new URL(INCIDENTS_PATH, ROOT))) {
+  if (file.endsWith(".md")) {
+    const path = `${INCIDENTS_PATH}${file}`
+    articles.push({
+      path,
+      content: await readFile(new URL(path, ROOT), "utf8")
+    })
+  }
+}
+
+const incidents = buildIncidentIndex(articles)
+await writeFile(OUTPUT, `${JSON.stringify({ incidents }, null, 1)}\n`)
+console.log(`Indexed ${incidents.length} incidents`)
@@ -0,0 +1,79 @@
+// Regenerates data/dailyPrices.json with daily USD closing prices from the
+// CryptoCompare histoday API: `npm run update-prices`. Run it before adding
+// incidents newer than the table and commit the result.
+import { writeFile } from "node:fs/promises"
+
+const SYMBOLS = [
+  "BTC",
+  "ETH",
+  "BNB",
+  "SOL",
+  "TRX",
+  "XRP",
+  "LTC",
+  "BCH",
+  "ETC",
+  "MATIC",
+  "AVAX",
+  "FTM",
+  "LINK",
+  "DOGE",
+  "ADA",
+  "XTZ",
+  "ZEC"
+]
+// The first incident in content/research/cyberattacks/incidents/
+const START = Date.UTC(2011, 0, 1) / 1000
+const DAYS_PER_REQUEST = 2000
+const OUTPUT = new URL("../data/dailyPrices.json", import.meta.url)
+
+async function fetchHistory(symbol) {
+  const prices = {}
+  let toTs = Math.floor(Date.now() / 1000)
+
+  while (toTs > START) {
+    const url = `https://min-api.cryptocompare.com/data/v2/histoday?fsym=${symbol}&tsym=USD&limit=${DAYS_PER_REQUEST}&toTs=${toTs}`
+    const response = await fetch(url, {
+      headers: process.env.CRYPTOCOMPARE_API_KEY
+        ? { authorization: `Apikey ${process.env.CRYPTOCOMPARE_API_KEY}` }
+        : {}
+    })
+    if (!response.ok) {
+      throw new Error(`${symbol}: HTTP ${response.status}`)
+    }
+    const { Response: status, Message, Data } = await response.json()
+    if (status !== "Success") {
+      throw new Error(`${symbol}: ${Message}`)
+    }
+
+    const days = Data.Data.filter((day) => day.close > 0)
+    days.forEach((day) => {
+      prices[new Date(day.time * 1000).toISOString().slice(0, 10)] = day.close
+    })
+    if (days.length === 0 || Data.TimeFrom <= START) {
+      break
+    }
+    toTs = Data.TimeFrom - 86400
+  }
+
+  return Object.fromEntries(Object.entries(prices).sort())
+}
+
+const prices = {}
+for (const symbol of SYMBOLS) {
+  prices[symbol] = await fetchHistory(symbol)
+  console.log(`${symbol}: ${Object.keys(prices[symbol]).length} days`)
+}
+
+await writeFile(
+  OUTPUT,
+  `${JSON.stringify(
+    {
+      source: "CryptoCompare histoday close (USD)",
+      updated: new Date().toISOString().slice(0, 10),
+      prices
+    },
+    null,
+    1
+  )}\n`
+)
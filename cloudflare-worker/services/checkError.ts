@@ -0,0 +1,10 @@
+// Thrown for failures a retry will not fix (nothing to check, a `file:`
+// target that is not in the pull request, a check the coordinator no longer
+// knows), so the queue consumer fails the check at once instead of retrying
+// it into the dead letter queue
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "NonRetryableError"
+  }
+}
@@ -0,0 +1,183 @@
+import { Env, PullRequestJob } from "../types"
+import { runQualityChecks } from "./qualityChecks"
+import { QueueManager } from "./queueManager"
+import {
+  completeCheckRun,
+  failCheckRun,
+  hasCheckRun,
+  startCheckRun
+} from "./checkRuns"
+import { publishResults, publishStatus } from "./stickyComment"
+import { publishReview } from "./reviewComments"
+import { createOctokit, getBotLogin } from "./githubAuth"
+import { NonRetryableError } from "./checkError"
+
+// Must match the dead_letter_queue configured in wrangler.toml
+export const DEAD_LETTER_QUEUE = "article-checks-dlq"
+
+// Retries back off exponentially: 30s, 60s, 120s, ...
+const RETRY_BASE_DELAY_SECONDS = 30
+
+async function processCheck(job: PullRequestJob, env: Env): Promise<void> {
+  const queueManager = new QueueManager(env)
+  const octokit = await createOctokit(env, job.installationId)
+  const botLogin = await getBotLogin(env, job.installationId)
+
+  // A newer push replaced this job while it waited in the queue
+  if (!(await queueManager.isCurrent(job))) {
+    console.log(
+      `Skipping superseded check for ${job.repository}#${job.prNumber}`
+    )
+    return
+  }
+
+  // Update status to processing
+  await queueManager.updateCheckStatus(job, "processing")
+  if (hasCheckRun(job)) {
+    await startCheckRun(octokit, job)
+  }
+
+  // Run quality checks
+  const results = await runQualityChecks(job, env, octokit)
+
+  // The run may have been superseded while the checks were running
+  if (!(await queueManager.isCurrent(job))) {
+    return
+  }
+
+  // Inline comments come on top of the report, so failing to post them must
+  // not fail (and retry) the whole check
+  try {
+    await publishReview(octokit, job, botLogin, results)
+  } catch (error) {
+    console.error("Error posting review comments:", error)
+  }
+
+  // Results go to the check run; runs started from a comment also answer in
+  // the sticky comment
+  if (hasCheckRun(job)) {
+    await completeCheckRun(octokit, job, results)
+  }
+  if (job.trigger === "push") {
+    await queueManager.updateCheckStatus(
+      job,
+      "completed",
+      `Published check run ${job.checkRunId}`
+    )
+    return
+  }
+
+  const check = await queueManager.getQueueStatus(job)
+  const commentId = await publishResults(
+    octokit,
+    job,
+    botLogin,
+    results,
+    check?.commentId
+  )
+
+  // Update status to completed
+  await queueManager.updateCheckStatus(
+    job,
+    "completed",
+    `Updated results comment ${commentId}`,
+    { commentId }
+  )
+}
+
+// Called for jobs that exhausted their retries on the main queue, or with
+// the error of a job that failed in a way a retry will not fix
+async function failCheck(
+  job: PullRequestJob,
+  env: Env,
+  error?: string
+): Promise<void> {
+  const queueManager = new QueueManager(env)
+  if (!(await queueManager.isCurrent(job))) {
+    return
+  }
+
+  const check = await queueManager.getQueueStatus(job)
+  const lastError = error ?? check?.result ?? "Unknown error occurred"
+
+  if (check) {
+    await queueManager.updateCheckStatus(job, "failed", lastError)
+  }
+
+  const octokit = await createOctokit(env, job.installationId)
+  if (hasCheckRun(job)) {
+    await failCheckRun(octokit, job, lastError)
+  }
+  if (job.trigger === "push") {
+    return
+  }
+
+  const reason = error
+    ? "The check could not be completed."
+    : `The check could not be completed after ${
+        check?.attempts ?? "several"
+      } attempts.`
+  await publishStatus(
+    octokit,
+    job,
+    await getBotLogin(env, job.installationId),
+    `> ❌ **Article Check Failed**\n\n${reason}\n\nLast error: \`${lastError}\``,
+    check?.commentId
+  )
+}
+
+export async function handleCheckBatch(
+  batch: MessageBatch<PullRequestJob>,
+  env: Env
+): Promise<void> {
+  for (const message of batch.messages) {
+    const job = message.body
+
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      try {
+        await failCheck(job, env)
+      } catch (error) {
+        console.error("Error reporting failed check:", error)
+      }
+      message.ack()
+      continue
+    }
+
+    try {
+      await processCheck(job, env)
+      message.ack()
+    } catch (error) {
+      console.error(
+        `Check for ${job.repository}#${job.prNumber} failed (attempt ${message.attempts}):`,
+        error
+      )
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred"
+
+      if (error instanceof NonRetryableError) {
+        try {
+          await failCheck(job, env, errorMessage)
+        } catch (failError) {
+          console.error("Error reporting failed check:", failError)
+        }
+        message.ack()
+        continue
+      }
+
+      // Back to pending until the retry is picked up or lands in the DLQ
+      try {
+        await new QueueManager(env).updateCheckStatus(
+          job,
+          "pending",
+          errorMessage
+        )
+      } catch (statusError) {
+        console.error("Error updating check status:", statusError)
+      }
+
+      message.retry({
+        delaySeconds: RETRY_BASE_DELAY_SECONDS * 2 ** (message.attempts - 1)
+      })
+    }
+  }
+}
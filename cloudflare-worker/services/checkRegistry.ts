@@ -0,0 +1,133 @@
+import { CheckDefinition, CheckType, ServiceBinding } from "../types"
+import { getSchemaForPath } from "../schemas/articleSchemas"
+import { validateWithLLM } from "./llmReview"
+import { validateArticleStructure } from "./structureValidator"
+import { checkReferences } from "./referenceChecker"
+import { checkLossConsistency } from "./lossChecker"
+import { checkTaxonomy } from "./taxonomyChecker"
+import { checkDuplicates } from "./duplicateChecker"
+import { checkPlagiarism, MAX_PLAGIARISM_PERCENT } from "./plagiarismChecker"
+import { checkSimilarity, MAX_SIMILARITY_SCORE } from "./similarityChecker"
+
+const ALL_ARTICLES = ["**/*.md"]
+const INCIDENTS = [
+  "content/research/cyberattacks/incidents/**/*.md",
+  "!**/_index.md"
+]
+
+// isAvailable keeps checks whose binding is missing from running
+function requireBinding(
+  binding: ServiceBinding | undefined,
+  name: string
+): ServiceBinding {
+  if (!binding) {
+    throw new Error(`The ${name} service binding is not configured`)
+  }
+  return binding
+}
+
+// In run and report order. Repositories tune these in .articlecheck.yml.
+export const CHECKS: CheckDefinition[] = [
+  {
+    id: "review",
+    name: "📝 Editorial Review",
+    severity: "error",
+    globs: ALL_ARTICLES,
+    // Includes the LLM retries and repairs
+    timeoutMs: 5 * 60 * 1000,
+    run: ({ content, env, usage, signal }) =>
+      validateWithLLM(content, env, usage, signal)
+  },
+  {
+    id: "structure",
+    name: "🧱 Structure",
+    severity: "error",
+    globs: ALL_ARTICLES,
+    timeoutMs: 10 * 1000,
+    run: async ({ content, path }) =>
+      validateArticleStructure(content, getSchemaForPath(path))
+  },
+  {
+    id: "references",
+    name: "🔗 References",
+    severity: "warning",
+    globs: ALL_ARTICLES,
+    timeoutMs: 60 * 1000,
+    run: ({ content, env }) =>
+      checkReferences(content, {
+        fetcher: env.REFERENCE_HEAD_CHECKS === "true" ? fetch : undefined
+      })
+  },
+  {
+    id: "losses",
+    name: "💰 Loss Amounts",
+    // Prices can be missing or off for illiquid tokens
+    severity: "warning",
+    globs: INCIDENTS,
+    timeoutMs: 10 * 1000,
+    run: async ({ content }) => checkLossConsistency(content)
+  },
+  {
+    id: "taxonomy",
+    name: "🏷️ Taxonomy",
+    severity: "error",
+    globs: INCIDENTS,
+    timeoutMs: 10 * 1000,
+    run: async ({ content }) => checkTaxonomy(content)
+  },
+  {
+    id: "duplicates",
+    name: "👯 Duplicate Incidents",
+    severity: "warning",
+    globs: INCIDENTS,
+    timeoutMs: 10 * 1000,
+    run: async ({ content, job, path }) =>
+      checkDuplicates(content, { repository: job.repository, path })
+  },
+  {
+    id: "plagiarism",
+    name: "🕵️ Plagiarism",
+    severity: "error",
+    globs: ALL_ARTICLES,
+    timeoutMs: 2 * 60 * 1000,
+    // Percentage of the article found elsewhere that fails the check
+    threshold: MAX_PLAGIARISM_PERCENT,
+    isAvailable: (env) => !!env.PLAGIARISM_CHECKER,
+    run: ({ content, env, signal, threshold }) =>
+      checkPlagiarism(
+        content,
+        requireBinding(env.PLAGIARISM_CHECKER, "PLAGIARISM_CHECKER"),
+        {
+          signal,
+          maxPercent: threshold
+        }
+      )
+  },
+  {
+    id: "similarity",
+    name: "🧭 Similar Articles",
+    severity: "warning",
+    globs: ALL_ARTICLES,
+    timeoutMs: 30 * 1000,
+    // Embedding similarity to a published article that fails the check
+    threshold: MAX_SIMILARITY_SCORE,
+    isAvailable: (env) => !!env.SIMILARITY_SEARCH,
+    run: ({ content, env, job, path, signal, threshold }) =>
+      checkSimilarity(
+        content,
+        requireBinding(env.SIMILARITY_SEARCH, "SIMILARITY_SEARCH"),
+        {
+          apiKey: env.SIMILARITY_API_KEY,
+          namespace: env.SIMILARITY_NAMESPACE,
+          repository: job.repository,
+          path,
+          signal,
+          maxScore: threshold
+        }
+      )
+  }
+]
+
+export function getCheck(id: CheckType): CheckDefinition | undefined {
+  return CHECKS.find((check) => check.id === id)
+}
@@ -0,0 +1,221 @@
+import { Octokit } from "@octokit/rest"
+import {
+  CheckRunJob,
+  CommitJob,
+  FileCheckResults,
+  PullRequestJob,
+  Severity
+} from "../types"
+import { fileIcon, formatResults, getVerdict } from "../utils/formatResults"
+
+export const CHECK_RUN_NAME = "Article Quality Check"
+
+// The Checks API accepts at most 50 annotations per request
+const ANNOTATIONS_PER_REQUEST = 50
+
+// GitHub rejects check run text longer than 65535 characters
+const MAX_OUTPUT_LENGTH = 65535
+
+interface CheckRunAnnotation {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: "notice" | "warning" | "failure"
+  message: string
+  title?: string
+}
+
+function splitRepository(repository: string): { owner: string; repo: string } {
+  const [owner, repo] = repository.split("/")
+  return { owner, repo }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH - 20)}\n\n_(truncated)_`
+    : text
+}
+
+const ANNOTATION_LEVELS: Record<
+  Severity,
+  CheckRunAnnotation["annotation_level"]
+> = {
+  error: "failure",
+  warning: "warning",
+  info: "notice"
+}
+
+function buildAnnotations(
+  fileResults: FileCheckResults[]
+): CheckRunAnnotation[] {
+  return fileResults.flatMap(({ path, results }) =>
+    results.flatMap((result) =>
+      (result.errors ?? []).flatMap(
+        ({ line, endLine, message, field, section }) =>
+          line === undefined
+            ? []
+            : [
+                {
+                  path,
+                  start_line: line,
+                  end_line: endLine ?? line,
+                  annotation_level:
+                    ANNOTATION_LEVELS[result.severity ?? "error"],
+                  message,
+                  title: field ?? section
+                }
+              ]
+      )
+    )
+  )
+}
+
+export function hasCheckRun(job: PullRequestJob): job is CheckRunJob {
+  return job.headSha !== undefined && job.checkRunId !== undefined
+}
+
+export async function createCheckRun(
+  octokit: Octokit,
+  job: CommitJob,
+  output?: { title: string; summary: string }
+): Promise<number> {
+  const { data } = await octokit.checks.create({
+    ...splitRepository(job.repository),
+    name: CHECK_RUN_NAME,
+    head_sha: job.headSha,
+    status: "queued",
+    output
+  })
+  return data.id
+}
+
+// Picks up the run a push left queued, e.g. waiting for a reviewer to start
+// the check on a first contribution, so the commit shows a single check
+export async function findOrCreateCheckRun(
+  octokit: Octokit,
+  job: CommitJob
+): Promise<number> {
+  const { data } = await octokit.checks.listForRef({
+    ...splitRepository(job.repository),
+    ref: job.headSha,
+    check_name: CHECK_RUN_NAME,
+    status: "queued"
+  })
+  return data.check_runs[0]?.id ?? (await createCheckRun(octokit, job))
+}
+
+export async function startCheckRun(
+  octokit: Octokit,
+  job: CheckRunJob
+): Promise<void> {
+  await octokit.checks.update({
+    ...splitRepository(job.repository),
+    check_run_id: job.checkRunId,
+    status: "in_progress",
+    started_at: new Date().toISOString()
+  })
+}
+
+export async function completeCheckRun(
+  octokit: Octokit,
+  job: CheckRunJob,
+  fileResults: FileCheckResults[]
+): Promise<void> {
+  const verdicts = fileResults.map(({ results }) => getVerdict(results))
+  const failedFiles = verdicts.filter((verdict) => verdict === "fail")
+  // Warnings do not block merging but stand out from a plain success
+  const conclusion =
+    fileResults.length === 0
+      ? "skipped"
+      : failedFiles.length > 0
+        ? "failure"
+        : verdicts.includes("warning")
+          ? "neutral"
+          : "success"
+  const title =
+    fileResults.length === 0
+      ? "No article changes to check"
+      : `${fileResults.length - failedFiles.length} of ${
+          fileResults.length
+        } file(s) passed`
+  const summary =
+    fileResults.length === 0
+      ? "This commit does not add or modify markdown files under `content/`."
+      : fileResults
+          .map(({ path, results }) => `- ${fileIcon(results)} \`${path}\``)
+          .join("\n")
+  const text =
+    fileResults.length > 0 ? truncate(formatResults(fileResults)) : undefined
+
+  const annotations = buildAnnotations(fileResults)
+  const batches: CheckRunAnnotation[][] = []
+  for (let i = 0; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    batches.push(annotations.slice(i, i + ANNOTATIONS_PER_REQUEST))
+  }
+
+  // Earlier batches are appended while the run is still in progress; the
+  // last request also sets the conclusion
+  for (const batch of batches.slice(0, -1)) {
+    await octokit.checks.update({
+      ...splitRepository(job.repository),
+      check_run_id: job.checkRunId,
+      output: { title, summary, annotations: batch }
+    })
+  }
+
+  await octokit.checks.update({
+    ...splitRepository(job.repository),
+    check_run_id: job.checkRunId,
+    status: "completed",
+    conclusion,
+    completed_at: new Date().toISOString(),
+    output: { title, summary, text, annotations: batches[batches.length - 1] }
+  })
+}
+
+export async function failCheckRun(
+  octokit: Octokit,
+  job: CheckRunJob,
+  message: string
+): Promise<void> {
+  await octokit.checks.update({
+    ...splitRepository(job.repository),
+    check_run_id: job.checkRunId,
+    status: "completed",
+    conclusion: "failure",
+    completed_at: new Date().toISOString(),
+    output: {
+      title: "Article check could not be completed",
+      summary: `Last error: \`${message}\``
+    }
+  })
+}
+
+export async function cancelCheckRun(
+  octokit: Octokit,
+  repository: string,
+  checkRunId: number,
+  output: { title: string; summary: string }
+): Promise<void> {
+  await octokit.checks.update({
+    ...splitRepository(repository),
+    check_run_id: checkRunId,
+    status: "completed",
+    conclusion: "cancelled",
+    completed_at: new Date().toISOString(),
+    output
+  })
+}
+
+// Closes the run for an older head commit once a newer push replaced it
+export async function supersedeCheckRun(
+  octokit: Octokit,
+  repository: string,
+  checkRunId: number,
+  headSha: string
+): Promise<void> {
+  await cancelCheckRun(octokit, repository, checkRunId, {
+    title: "Superseded by a newer commit",
+    summary: `A newer commit (\`${headSha}\`) is being checked instead.`
+  })
+}
@@ -0,0 +1,168 @@
+import { Octokit } from "@octokit/rest"
+import {
+  ArticleCheckCommand,
+  Commenter,
+  CommitJob,
+  Env,
+  PullRequestJob,
+  QueuedCheck
+} from "../types"
+import { USAGE } from "../utils/commandParser"
+import { QueueManager } from "./queueManager"
+import { cancelCheckRun, findOrCreateCheckRun } from "./checkRuns"
+import { publishStatus } from "./stickyComment"
+import { authorizeCommand, formatDenial, recordDenial } from "./permissions"
+import { getBotLogin } from "./githubAuth"
+
+function formatStatus(check: QueuedCheck | null): string {
+  if (!check) {
+    return "> 📋 **Article Check Status**\n\nNo check has run on this pull request recently."
+  }
+
+  let status = `> 📋 **Article Check Status**: \`${check.status}\`\n\n`
+  status += `- Started: ${new Date(check.timestamp).toISOString()}\n`
+  if (check.headSha) {
+    status += `- Commit: \`${check.headSha}\`\n`
+  }
+  if (check.attempts) {
+    status += `- Attempts: ${check.attempts}\n`
+  }
+  if (check.result && check.status !== "completed") {
+    status += `- Last error: \`${check.result}\`\n`
+  }
+  return status.trimEnd()
+}
+
+async function cancelCheck(
+  job: PullRequestJob,
+  queueManager: QueueManager,
+  octokit: Octokit
+): Promise<string> {
+  const check = await queueManager.getQueueStatus(job)
+  if (!check || (check.status !== "pending" && check.status !== "processing")) {
+    return "> ℹ️ **Nothing to Cancel**\n\nThere is no pending or running check on this pull request."
+  }
+
+  await queueManager.updateCheckStatus(job, "cancelled", "Cancelled on request")
+  if (check.checkRunId) {
+    await cancelCheckRun(octokit, job.repository, check.checkRunId, {
+      title: "Cancelled",
+      summary: "The check was cancelled with `/articlecheck cancel`."
+    })
+  }
+  return "> 🛑 **Article Check Cancelled**\n\nRun `/articlecheck` to start a new check."
+}
+
+async function reply(
+  octokit: Octokit,
+  job: PullRequestJob,
+  env: Env,
+  body: string
+): Promise<void> {
+  const check = await new QueueManager(env).getQueueStatus(job)
+  await publishStatus(
+    octokit,
+    job,
+    await getBotLogin(env, job.installationId),
+    body,
+    check?.commentId
+  )
+}
+
+// Handles an `/articlecheck` comment. Every reply goes to the sticky comment.
+export async function handleCommand(
+  command: ArticleCheckCommand,
+  job: PullRequestJob,
+  commenter: Commenter,
+  env: Env,
+  octokit: Octokit
+): Promise<Response> {
+  const queueManager = new QueueManager(env)
+
+  const decision = await authorizeCommand(
+    octokit,
+    env,
+    job.repository,
+    commenter,
+    command.name
+  )
+  if (!decision.allowed) {
+    const reason = decision.reason ?? "Not authorized"
+    await recordDenial(env, job, commenter, command.name, reason)
+    await reply(octokit, job, env, formatDenial(commenter.login, reason))
+    return new Response(reason, { status: 200 })
+  }
+
+  switch (command.name) {
+    case "help":
+      await reply(octokit, job, env, USAGE)
+      return new Response("Usage posted")
+
+    case "invalid":
+      await reply(
+        octokit,
+        job,
+        env,
+        `> ⚠️ **Invalid Command**: ${command.error}\n\n${USAGE}`
+      )
+      return new Response(command.error, { status: 200 })
+
+    case "status": {
+      const check = await queueManager.getQueueStatus(job)
+      await reply(octokit, job, env, formatStatus(check))
+      return new Response(check?.status ?? "No check")
+    }
+
+    case "cancel": {
+      const status = await cancelCheck(job, queueManager, octokit)
+      await reply(octokit, job, env, status)
+      return new Response(status)
+    }
+  }
+
+  // Pinned to the head commit, so the run reports there as the PR's check
+  const [owner, repo] = job.repository.split("/")
+  const { data: pullRequest } = await octokit.pulls.get({
+    owner,
+    repo,
+    pull_number: job.prNumber
+  })
+  const runJob: CommitJob = {
+    ...job,
+    headSha: pullRequest.head.sha,
+    only: command.only,
+    files: command.files
+  }
+
+  // Try to enqueue the check
+  const { status, isNew, checkId } = await queueManager.enqueueCheck(runJob)
+
+  // If check is already in progress, return status
+  if (!isNew) {
+    await reply(octokit, runJob, env, status)
+    return new Response(status, { status: 200 })
+  }
+  runJob.checkId = checkId
+
+  try {
+    // Only a full run may stand in for the commit's required check; runs
+    // limited with `--only` or `file:` answer in the sticky comment alone
+    if (!runJob.only && !runJob.files) {
+      runJob.checkRunId = await findOrCreateCheckRun(octokit, runJob)
+    }
+    await queueManager.updateCheckStatus(runJob, "pending", undefined, {
+      checkRunId: runJob.checkRunId
+    })
+
+    // Hand the job to the queue consumer so the webhook returns
+    // well within GitHub's 10-second timeout
+    await env.CHECK_QUEUE.send(runJob)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred"
+    await queueManager.updateCheckStatus(runJob, "failed", errorMessage)
+    throw error
+  }
+
+  return new Response("Article check queued", { status: 202 })
+}
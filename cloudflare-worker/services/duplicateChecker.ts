@@ -0,0 +1,195 @@
+import {
+  DuplicateCheckOptions,
+  DuplicateMatch,
+  IncidentIndexEntry,
+  QualityCheckResult
+} from "../types"
+import { parseArticle } from "../utils/markdown"
+import { indexIncident } from "../utils/incidentIndex"
+import {
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  termFrequencies,
+  weighTerms
+} from "../utils/textSimilarity"
+import incidentIndex from "../data/incidentIndex.json"
+
+const DEFAULT_INCIDENTS = incidentIndex.incidents as IncidentIndexEntry[]
+
+// Reports of one incident are often dated by discovery or disclosure
+const SAME_INCIDENT_DAYS = 7
+const LOSS_TOLERANCE = 0.1
+// TF-IDF cosine similarity of the bodies. Unrelated incidents written from
+// the same template reach about 0.7.
+const SIMILAR_TEXT = 0.5
+const NEAR_COPY = 0.8
+const MAX_MATCHES = 3
+
+interface WeightedIndex {
+  weights: Map<string, number>
+  unseenWeight: number
+  vectors: Map<string, number>[]
+}
+
+// The bundled index is weighted once per isolate
+const weightedIndexes = new WeakMap<IncidentIndexEntry[], WeightedIndex>()
+
+function weighIndex(incidents: IncidentIndexEntry[]): WeightedIndex {
+  const cached = weightedIndexes.get(incidents)
+  if (cached) {
+    return cached
+  }
+  const terms = incidents.map((incident) => termFrequencies(incident.text))
+  const weights = inverseDocumentFrequencies(terms)
+  const unseenWeight = Math.log(incidents.length + 1) + 1
+  const index = {
+    weights,
+    unseenWeight,
+    vectors: terms.map((tf) => weighTerms(tf, weights, unseenWeight))
+  }
+  weightedIndexes.set(incidents, index)
+  return index
+}
+
+function normalizeEntity(entity: string): string {
+  return entity.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// "Mt. Gox" and "MtGox", "Bybit" and "Bybit Exchange"
+function sameEntity(a: string, b: string): boolean {
+  const [x, y] = [normalizeEntity(a), normalizeEntity(b)]
+  if (!x || !y) {
+    return false
+  }
+  return (
+    x === y ||
+    (Math.min(x.length, y.length) >= 4 && (x.includes(y) || y.includes(x)))
+  )
+}
+
+function daysBetween(a: string, b: string): number {
+  return (
+    Math.abs(
+      new Date(`${a}T00:00:00Z`).getTime() -
+        new Date(`${b}T00:00:00Z`).getTime()
+    ) / 86400000
+  )
+}
+
+function fileUrl(path: string, repository?: string): string {
+  return repository
+    ? `https://github.com/${repository}/blob/HEAD/${path}`
+    : path
+}
+
+export function findDuplicates(
+  content: string,
+  options: DuplicateCheckOptions = {}
+): DuplicateMatch[] {
+  const {
+    targetEntities: entities,
+    date,
+    loss,
+    text
+  } = indexIncident(options.path ?? "", content)
+  const incidents = options.incidents ?? DEFAULT_INCIDENTS
+  const { weights, unseenWeight, vectors } = weighIndex(incidents)
+  const vector = weighTerms(termFrequencies(text), weights, unseenWeight)
+
+  const matches: DuplicateMatch[] = []
+  incidents.forEach((incident, index) => {
+    // Edits to an existing article are compared against everything else
+    if (incident.path === options.path) {
+      return
+    }
+
+    const entity = entities.find((name) =>
+      incident.targetEntities.some((other) => sameEntity(name, other))
+    )
+    const sameDate =
+      date !== null &&
+      incident.date !== null &&
+      daysBetween(date, incident.date) <= SAME_INCIDENT_DAYS
+    const sameLoss =
+      loss !== null &&
+      incident.loss !== null &&
+      Math.abs(loss - incident.loss) <= incident.loss * LOSS_TOLERANCE
+    const similarity = cosineSimilarity(vector, vectors[index])
+
+    const reasons: string[] = []
+    if (entity) {
+      reasons.push(`same target entity (${entity})`)
+    }
+    if (sameDate) {
+      reasons.push(`date ${incident.date}`)
+    }
+    if (sameLoss) {
+      reasons.push(`similar loss ($${incident.loss?.toLocaleString("en-US")})`)
+    }
+    if (similarity >= SIMILAR_TEXT) {
+      reasons.push(`${Math.round(similarity * 100)}% similar text`)
+    }
+
+    // Articles often name other entities (chains, bridges) involved in the
+    // same week, so a shared entity and date alone are not enough
+    const likely =
+      (entity !== undefined &&
+        sameDate &&
+        (sameLoss || similarity >= SIMILAR_TEXT)) ||
+      (similarity >= NEAR_COPY && (entity !== undefined || sameDate))
+    // Another incident of the same entity, or the same date and loss
+    const possible =
+      entity !== undefined || (sameDate && sameLoss) || similarity >= NEAR_COPY
+
+    if (likely || possible) {
+      matches.push({ incident, likely, similarity, reasons })
+    }
+  })
+
+  return matches
+    .sort(
+      (a, b) =>
+        Number(b.likely) - Number(a.likely) || b.similarity - a.similarity
+    )
+    .slice(0, MAX_MATCHES)
+}
+
+export function checkDuplicates(
+  content: string,
+  options: DuplicateCheckOptions = {}
+): QualityCheckResult {
+  const matches = findDuplicates(content, options)
+  const incidents = options.incidents ?? DEFAULT_INCIDENTS
+  if (matches.length === 0) {
+    return {
+      passed: true,
+      details: `No similar incident among ${incidents.length} existing article(s)`
+    }
+  }
+
+  const link = ({ incident }: DuplicateMatch) =>
+    `[${incident.title}](${fileUrl(incident.path, options.repository)})`
+  const likely = matches.filter((match) => match.likely)
+  const line = parseArticle(content).frontMatter?.["target-entities"]?.line
+
+  return {
+    passed: likely.length === 0,
+    details:
+      likely.length > 0
+        ? `Likely duplicate of ${likely.map(link).join(", ")}`
+        : `Found ${matches.length} related incident(s); make sure this is a new incident`,
+    suggestions: matches.map((match) =>
+      match.likely
+        ? `Update the existing article ${link(match)} instead (${match.reasons.join(", ")})`
+        : `Related incident ${link(match)} (${match.reasons.join(", ")}); if it is the same incident, update that article instead`
+    ),
+    errors:
+      likely.length > 0
+        ? likely.map((match) => ({
+            message: `Likely duplicate of ${match.incident.path} (${match.reasons.join(", ")})`,
+            line,
+            field: "target-entities"
+          }))
+        : undefined
+  }
+}
@@ -0,0 +1,211 @@
+import { Octokit } from "@octokit/rest"
+import { Env, InstallationToken } from "../types"
+
+// GitHub accepts app JWTs valid for at most 10 minutes; iat is backdated to
+// allow for clock drift
+const JWT_LIFETIME_SECONDS = 9 * 60
+const JWT_CLOCK_DRIFT_SECONDS = 60
+
+// Installation tokens live for an hour; refresh them a little early
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+const TOKEN_CACHE_PREFIX = "installation-token:"
+
+// Per-isolate cache in front of the KV copy shared by all isolates
+const tokenCache = new Map<number, InstallationToken>()
+
+// Per-isolate; keyed by "app" or "pat"
+const botLoginCache = new Map<string, string>()
+
+function base64UrlEncode(data: ArrayBuffer | string): string {
+  const bytes =
+    typeof data === "string"
+      ? new TextEncoder().encode(data)
+      : new Uint8Array(data)
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length]
+  }
+  const bytes: number[] = []
+  for (let rest = length; rest > 0; rest >>= 8) {
+    bytes.unshift(rest & 0xff)
+  }
+  return [0x80 | bytes.length, ...bytes]
+}
+
+function derSequence(...parts: number[][]): number[] {
+  const content = parts.flat()
+  return [0x30, ...derLength(content.length), ...content]
+}
+
+// GitHub hands out PKCS#1 ("BEGIN RSA PRIVATE KEY") keys, but WebCrypto only
+// imports PKCS#8, so the key is wrapped in a PrivateKeyInfo structure
+function wrapPkcs1(pkcs1: Uint8Array): Uint8Array {
+  const version = [0x02, 0x01, 0x00]
+  const rsaEncryption = derSequence(
+    [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01],
+    [0x05, 0x00]
+  )
+  const privateKey = [0x04, ...derLength(pkcs1.length), ...pkcs1]
+  return new Uint8Array(derSequence(version, rsaEncryption, privateKey))
+}
+
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const isPkcs1 = pem.includes("BEGIN RSA PRIVATE KEY")
+  const base64 = pem
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, "")
+    .replace(/\\n|\s/g, "")
+  const der = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+
+  return crypto.subtle.importKey(
+    "pkcs8",
+    isPkcs1 ? wrapPkcs1(der) : der,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+}
+
+export async function createAppJWT(
+  appId: string,
+  privateKey: string,
+  now = Date.now()
+): Promise<string> {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_SECONDS
+  const header = base64UrlEncode(JSON.stringify({ alg: "RS256", typ: "JWT" }))
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + JWT_LIFETIME_SECONDS,
+      iss: appId
+    })
+  )
+
+  const key = await importPrivateKey(privateKey)
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(`${header}.${payload}`)
+  )
+  return `${header}.${payload}.${base64UrlEncode(signature)}`
+}
+
+// The app is used when both its id and key are configured
+function getAppCredentials(
+  env: Env
+): { appId: string; privateKey: string } | null {
+  return env.GITHUB_APP_ID && env.GITHUB_APP_PRIVATE_KEY
+    ? { appId: env.GITHUB_APP_ID, privateKey: env.GITHUB_APP_PRIVATE_KEY }
+    : null
+}
+
+function isFresh(token: InstallationToken | null | undefined): boolean {
+  return !!token && token.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+}
+
+export async function getInstallationToken(
+  env: Env,
+  app: { appId: string; privateKey: string },
+  installationId: number
+): Promise<string> {
+  const cached = tokenCache.get(installationId)
+  if (cached && isFresh(cached)) {
+    return cached.token
+  }
+
+  const key = `${TOKEN_CACHE_PREFIX}${installationId}`
+  const stored = await env.PR_STATE.get<InstallationToken>(key, "json")
+  if (stored && isFresh(stored)) {
+    tokenCache.set(installationId, stored)
+    return stored.token
+  }
+
+  const jwt = await createAppJWT(app.appId, app.privateKey)
+  // @octokit/auth-token sends JWTs as bearer tokens
+  const { data } = await new Octokit({
+    auth: jwt
+  }).apps.createInstallationAccessToken({ installation_id: installationId })
+
+  const token: InstallationToken = {
+    token: data.token,
+    expiresAt: Date.parse(data.expires_at)
+  }
+  tokenCache.set(installationId, token)
+  await env.PR_STATE.put(key, JSON.stringify(token), {
+    expirationTtl: Math.max(
+      60,
+      Math.floor(
+        (token.expiresAt - TOKEN_REFRESH_MARGIN_MS - Date.now()) / 1000
+      )
+    )
+  })
+  return token.token
+}
+
+// Acts as the GitHub App installation that sent the webhook. PAT_TOKEN is
+// only used when no app is configured, e.g. for local development.
+export async function createOctokit(
+  env: Env,
+  installationId?: number
+): Promise<Octokit> {
+  const app = getAppCredentials(env)
+  if (app && installationId) {
+    return new Octokit({
+      auth: await getInstallationToken(env, app, installationId)
+    })
+  }
+  if (env.PAT_TOKEN) {
+    return new Octokit({ auth: env.PAT_TOKEN })
+  }
+  throw new Error(
+    "No GitHub credentials: configure the GitHub App or PAT_TOKEN"
+  )
+}
+
+// The login the worker's comments are posted under, which tells them apart
+// from people's comments that quote the worker's markers. Uses the same
+// credentials createOctokit picks.
+export async function getBotLogin(
+  env: Env,
+  installationId?: number
+): Promise<string> {
+  const app = installationId ? getAppCredentials(env) : null
+  const cached = botLoginCache.get(app ? "app" : "pat")
+  if (cached) {
+    return cached
+  }
+
+  let login: string
+  if (app) {
+    const jwt = await createAppJWT(app.appId, app.privateKey)
+    const { data } = await new Octokit({ auth: jwt }).apps.getAuthenticated()
+    if (!data) {
+      throw new Error("GitHub did not return the app")
+    }
+    login = `${data.slug}[bot]`
+  } else if (env.PAT_TOKEN) {
+    const { data } = await new Octokit({
+      auth: env.PAT_TOKEN
+    }).users.getAuthenticated()
+    login = data.login
+  } else {
+    throw new Error(
+      "No GitHub credentials: configure the GitHub App or PAT_TOKEN"
+    )
+  }
+  botLoginCache.set(app ? "app" : "pat", login)
+  return login
+}
+
+// Lets tests start from an empty cache
+export function clearTokenCache(): void {
+  tokenCache.clear()
+  botLoginCache.clear()
+}
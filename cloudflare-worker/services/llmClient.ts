@@ -0,0 +1,227 @@
+import {
+  ChatMessage,
+  Env,
+  LLMProvider,
+  LLMResponse,
+  LLMTarget,
+  LLMUsageContext,
+  UsageCommit,
+  UsageReservation
+} from "../types"
+import { getLLMConfig } from "../config/llmConfig"
+import { getBudget } from "../config/budgets"
+import { getRateLimits } from "../config/rateLimits"
+import { calculateCost } from "../config/llmPricing"
+import { createProvider, LLMLimitError, LLMProviderError } from "../providers"
+import { RateLimitDecision } from "../durableObjects/rateLimiter"
+import { withTimeout } from "../utils/timeout"
+
+// Retries back off exponentially: 1s, 2s, 4s, ...
+const RETRY_BASE_DELAY_MS = 1000
+
+// How long a call waits for per-minute rate limits to reset before giving up
+// and leaving the retry to the queue
+const MAX_RATE_LIMIT_WAIT_MS = 3 * 60 * 1000
+
+// Only used to size reservations; billing uses the provider's usage block
+// (1 token ≈ 4 characters)
+function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+async function callRateLimiter(
+  env: Env,
+  path: string,
+  body: object
+): Promise<RateLimitDecision> {
+  const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName("global"))
+  const response = await limiter.fetch(`https://rate-limiter${path}`, {
+    method: "POST",
+    body: JSON.stringify(body)
+  })
+  return response.json()
+}
+
+// Stops waiting as soon as the caller gives up
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort)
+  })
+}
+
+function isRetryable(error: unknown): boolean {
+  // Timeouts and network failures surface as plain errors
+  return !(error instanceof LLMProviderError) || error.retryable
+}
+
+async function completeWithRetries(
+  provider: LLMProvider,
+  target: LLMTarget,
+  messages: ChatMessage[],
+  json: boolean,
+  env: Env,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const config = getLLMConfig(env)
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(
+        config.timeoutMs,
+        (signal) =>
+          provider.complete({
+            model: target.model,
+            messages,
+            maxTokens: config.maxTokens,
+            json,
+            signal
+          }),
+        "LLM request",
+        signal
+      )
+    } catch (error) {
+      if (
+        attempt >= config.maxRetries ||
+        !isRetryable(error) ||
+        signal?.aborted
+      ) {
+        throw error
+      }
+      console.warn(
+        `${provider.name} request failed (attempt ${attempt + 1}), retrying:`,
+        error
+      )
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, signal)
+    }
+  }
+}
+
+// Single entry point for LLM calls: rate limiting, budgets, retries,
+// timeouts and fallback to the secondary provider all live here
+export async function completeChat(
+  messages: ChatMessage[],
+  env: Env,
+  context: LLMUsageContext,
+  options: { json?: boolean; signal?: AbortSignal } = {}
+): Promise<LLMResponse> {
+  const { signal } = options
+  signal?.throwIfAborted()
+  const config = getLLMConfig(env)
+  const targets = [config.primary, config.fallback].filter(
+    (target): target is LLMTarget => target !== undefined
+  )
+
+  // Providers without credentials drop out of the chain, so an unconfigured
+  // fallback cannot replace the primary's failure with its own
+  const configErrors: unknown[] = []
+  const chain = targets.flatMap((target) => {
+    try {
+      return [{ target, provider: createProvider(target.provider, env) }]
+    } catch (error) {
+      console.warn(`Skipping ${target.provider}:`, error)
+      configErrors.push(error)
+      return []
+    }
+  })
+  if (chain.length === 0) {
+    throw configErrors[0]
+  }
+
+  // Reserve the worst case (estimated prompt plus the full output allowance
+  // on the priciest target) so over-budget calls are refused up front
+  const estimatedInputTokens = estimateTokenCount(
+    messages.map((message) => message.content).join("\n")
+  )
+  const estimatedCostUSD = Math.max(
+    ...chain.map(({ target }) =>
+      calculateCost(target.model, {
+        inputTokens: estimatedInputTokens,
+        outputTokens: config.maxTokens
+      })
+    )
+  )
+  const reservation: UsageReservation = {
+    repository: context.repository,
+    estimatedInputTokens,
+    maxOutputTokens: config.maxTokens,
+    estimatedCostUSD,
+    budget: getBudget(context.repository, env),
+    limits: getRateLimits(env)
+  }
+  // Articles are reviewed one after another, so a pull request with more
+  // files than the per-minute limit waits for the window to reset
+  let decision = await callRateLimiter(env, "/reserve", reservation)
+  let waitedMs = 0
+  while (
+    !decision.allowed &&
+    decision.retryAfterMs !== undefined &&
+    waitedMs + decision.retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS
+  ) {
+    console.warn(`${decision.reason}, waiting ${decision.retryAfterMs}ms`)
+    await sleep(decision.retryAfterMs, signal)
+    waitedMs += decision.retryAfterMs
+    decision = await callRateLimiter(env, "/reserve", reservation)
+  }
+  if (!decision.allowed || !decision.reservationId) {
+    throw new LLMLimitError(
+      decision.reason ?? "LLM request refused",
+      decision.retryAfterMs !== undefined
+    )
+  }
+  const reservationId = decision.reservationId
+
+  let lastError: unknown
+  for (const { target, provider } of chain) {
+    let response: LLMResponse
+    try {
+      console.log(
+        `Requesting completion from ${target.provider}/${target.model}`
+      )
+      response = await completeWithRetries(
+        provider,
+        target,
+        messages,
+        options.json ?? false,
+        env,
+        signal
+      )
+    } catch (error) {
+      console.error(`${target.provider} request failed:`, error)
+      lastError = error
+      // The caller gave up, so the fallback would be wasted
+      if (signal?.aborted) {
+        break
+      }
+      continue
+    }
+
+    // Bill what the provider reports, falling back to the estimate
+    const usage = response.usage ?? {
+      inputTokens: estimatedInputTokens,
+      outputTokens: estimateTokenCount(response.content)
+    }
+    const commit: UsageCommit = {
+      ...context,
+      reservationId,
+      provider: response.provider,
+      model: response.model,
+      usage,
+      costUSD: calculateCost(target.model, usage)
+    }
+    await callRateLimiter(env, "/commit", commit)
+
+    return { ...response, usage }
+  }
+
+  await callRateLimiter(env, "/release", { reservationId })
+  throw lastError
+}
@@ -0,0 +1,160 @@
+import {
+  ChatMessage,
+  CriterionAssessment,
+  Env,
+  LLMUsageContext,
+  QualityCheckResult,
+  ValidationError
+} from "../types"
+import { completeChat } from "./llmClient"
+import {
+  parseReviewResponse,
+  REVIEW_CRITERIA,
+  REVIEW_RESPONSE_FORMAT
+} from "../schemas/reviewSchema"
+
+// How many times a malformed review is sent back to the model for repair
+const MAX_REPAIR_ATTEMPTS = 2
+
+const SYSTEM_PROMPT =
+  "You are a technical article reviewer specializing in cryptocurrency and blockchain security. Your task is to review articles about crypto attacks for quality, accuracy, and completeness. Be extremely thorough and strict in your assessment, requiring detailed technical information and proper formatting. You always answer with a single JSON object and nothing else."
+
+function buildReviewPrompt(content: string): string {
+  const criteria = REVIEW_CRITERIA.map(
+    (criterion, index) =>
+      `${index + 1}. ${criterion.name} (id: "${criterion.id}") must have:\n${criterion.requirements
+        .map((requirement) => `   - ${requirement}`)
+        .join("\n")}`
+  ).join("\n\n")
+
+  return `Review this crypto attack article for quality and accuracy. The article should PASS only if it meets ALL of the following criteria:
+
+${criteria}
+
+Article content:
+${content}
+
+Respond with a JSON object in exactly this format:
+${REVIEW_RESPONSE_FORMAT}
+
+Rules:
+- Include one "criteria" entry for every criterion id listed above.
+- "evidence" must quote the article verbatim; use an empty array when nothing in the article supports the criterion.
+- "missing" lists critical information absent from the article.
+- "suggestions" lists specific, actionable improvements.
+- Be strict in the assessment - if any criterion is not fully met, "verdict" must be "FAIL".
+- Ensure code blocks have proper syntax highlighting (e.g. \`\`\`solidity).
+- Verify all dates are in UTC and properly formatted.
+- Check that all reference links are properly formatted markdown links.`
+}
+
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length
+}
+
+// Models reflow quotes, so whitespace only has to match loosely
+function locateQuote(
+  content: string,
+  quote: string
+): { start: number; end: number } | undefined {
+  const words = quote.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) {
+    return undefined
+  }
+  const match = new RegExp(
+    words
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+")
+  ).exec(content)
+  return match
+    ? { start: match.index, end: match.index + match[0].length }
+    : undefined
+}
+
+// Pins failed criteria to the passages the model quoted for them
+function evidenceErrors(
+  content: string,
+  criteria: CriterionAssessment[]
+): ValidationError[] {
+  return criteria
+    .filter((criterion) => !criterion.passed)
+    .flatMap((criterion) =>
+      criterion.evidence.flatMap((quote) => {
+        const location = locateQuote(content, quote)
+        if (!location) {
+          return []
+        }
+        const line = lineAt(content, location.start)
+        const endLine = lineAt(content, Math.max(location.end - 1, 0))
+        return [
+          {
+            message: `${criterion.name ?? criterion.id}: ${criterion.feedback}`,
+            line,
+            endLine: endLine > line ? endLine : undefined
+          }
+        ]
+      })
+    )
+}
+
+export async function validateWithLLM(
+  content: string,
+  env: Env,
+  context: LLMUsageContext,
+  signal?: AbortSignal
+): Promise<QualityCheckResult> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: buildReviewPrompt(content) }
+  ]
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { content: completion } = await completeChat(messages, env, context, {
+      json: true,
+      signal
+    })
+    const { verdict, errors } = parseReviewResponse(completion)
+
+    if (verdict) {
+      // A PASS verdict with failing criteria is still a FAIL
+      const passed =
+        verdict.verdict === "PASS" &&
+        verdict.criteria.every((criterion) => criterion.passed)
+
+      const located = evidenceErrors(content, verdict.criteria)
+      return {
+        passed,
+        details: verdict.summary,
+        suggestions:
+          verdict.suggestions.length > 0 ? verdict.suggestions : undefined,
+        criteria: verdict.criteria,
+        missing: verdict.missing.length > 0 ? verdict.missing : undefined,
+        errors: located.length > 0 ? located : undefined
+      }
+    }
+
+    console.warn(
+      `Malformed review (attempt ${attempt + 1}):`,
+      errors.join("; ")
+    )
+
+    // Ask the model to repair its own output
+    messages.push(
+      { role: "assistant", content: completion },
+      {
+        role: "user",
+        content: `Your response does not match the required format:\n${errors
+          .map((error) => `- ${error}`)
+          .join(
+            "\n"
+          )}\n\nReply again with only the corrected JSON object in the required format.`
+      }
+    )
+  }
+
+  throw new Error(
+    `LLM review did not match the response schema after ${
+      MAX_REPAIR_ATTEMPTS + 1
+    } attempts`
+  )
+}
@@ -0,0 +1,264 @@
+import {
+  PriceTable,
+  QualityCheckResult,
+  StatedAmount,
+  ValidationError
+} from "../types"
+import { getSection, parseArticle } from "../utils/markdown"
+import dailyPrices from "../data/dailyPrices.json"
+
+// Stated USD figures are usually rounded ("approximately $80 million")
+const USD_TOLERANCE = 0.1
+// Daily closes differ from the price at the time of the attack
+const PRICE_TOLERANCE = 0.25
+// How far back to look for a price when the table has a gap
+const MAX_PRICE_AGE_DAYS = 3
+
+const DEFAULT_PRICES: PriceTable = dailyPrices.prices
+
+const PEGGED = ["USDT", "USDC", "DAI", "BUSD", "TUSD", "USDP", "GUSD", "FRAX"]
+
+// Wrapped and renamed tokens priced as their underlying asset
+const SYMBOL_ALIASES: Record<string, string> = {
+  WETH: "ETH",
+  WBTC: "BTC",
+  TRON: "TRX",
+  WBNB: "BNB"
+}
+
+// Uppercase words after a number that are not assets
+const NOT_ASSETS = ["USD", "US", "UTC", "GMT", "AM", "PM", "CEO", "CTO"]
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9
+}
+
+const NUMBER = "(\\d[\\d,]*(?:\\.\\d+)?)"
+// Spelled out so the case-sensitive asset pattern still reads "25M USDC"
+const MULTIPLIER =
+  "(?:\\s*(k|K|m|M|mm|MM|mn|b|B|bn|thousand|million|billion)\\b)?"
+
+const USD_PATTERNS = [
+  new RegExp(`(?:US)?\\$\\s?${NUMBER}${MULTIPLIER}`, "gi"),
+  new RegExp(`\\bUSD\\s?${NUMBER}${MULTIPLIER}`, "gi"),
+  new RegExp(`${NUMBER}${MULTIPLIER}\\s*(?:USD|US dollars|dollars)\\b`, "gi")
+]
+const ASSET_PATTERN = new RegExp(
+  `${NUMBER}${MULTIPLIER}\\s+\\$?([a-z]?[A-Z]{2,}[A-Za-z0-9]*)\\b`,
+  "g"
+)
+
+function toNumber(value: string, multiplier?: string): number {
+  return (
+    Number(value.replace(/,/g, "")) *
+    (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1)
+  )
+}
+
+export function extractAmounts(
+  line: string,
+  lineNumber: number
+): StatedAmount[] {
+  const amounts: StatedAmount[] = []
+  let rest = line
+
+  for (const pattern of USD_PATTERNS) {
+    rest = rest.replace(
+      pattern,
+      (match, value: string, multiplier?: string) => {
+        amounts.push({
+          amount: toNumber(value, multiplier),
+          symbol: "USD",
+          text: match.trim(),
+          line: lineNumber
+        })
+        return " ".repeat(match.length)
+      }
+    )
+  }
+
+  for (const match of rest.matchAll(ASSET_PATTERN)) {
+    const [text, value, multiplier, rawSymbol] = match
+    const symbol = rawSymbol.toUpperCase()
+    if (!NOT_ASSETS.includes(symbol)) {
+      amounts.push({
+        amount: toNumber(value, multiplier),
+        symbol: SYMBOL_ALIASES[symbol] ?? symbol,
+        text: text.trim(),
+        line: lineNumber
+      })
+    }
+  }
+
+  return amounts
+}
+
+export function getPrice(
+  prices: PriceTable,
+  symbol: string,
+  date: string
+): number | null {
+  if (PEGGED.includes(symbol)) {
+    return 1
+  }
+  const history = prices[symbol]
+  if (!history) {
+    return null
+  }
+  const day = new Date(`${date}T00:00:00Z`)
+  for (let age = 0; age <= MAX_PRICE_AGE_DAYS; age++) {
+    const key = new Date(day.getTime() - age * 86400000)
+      .toISOString()
+      .slice(0, 10)
+    if (history[key] !== undefined) {
+      return history[key]
+    }
+  }
+  return null
+}
+
+function isClose(actual: number, expected: number, tolerance: number): boolean {
+  return Math.abs(actual - expected) <= expected * tolerance
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { maximumFractionDigits: amount < 100 ? 2 : 0 })}`
+}
+
+// Summary and Losses often repeat the same figure
+function uniqueAmounts(amounts: StatedAmount[]): StatedAmount[] {
+  const seen = new Set<string>()
+  return amounts.filter((amount) => {
+    const key = `${amount.symbol}:${amount.amount}`
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+export function checkLossConsistency(
+  content: string,
+  prices: PriceTable = DEFAULT_PRICES
+): QualityCheckResult {
+  const article = parseArticle(content)
+  const lossField = article.frontMatter?.loss
+  const dateField = article.frontMatter?.date
+
+  if (!lossField || typeof lossField.value !== "number") {
+    return {
+      passed: true,
+      details: "No numeric `loss` in the front matter to cross-check"
+    }
+  }
+  const loss = lossField.value
+
+  const amounts = uniqueAmounts(
+    ["Losses", "Summary"].flatMap((title) => {
+      const section = getSection(article, [title])
+      return section
+        ? section.lines.flatMap((line, index) =>
+            extractAmounts(line, section.startLine + index)
+          )
+        : []
+    })
+  )
+  const usdAmounts = amounts.filter((amount) => amount.symbol === "USD")
+  const assetAmounts = amounts.filter((amount) => amount.symbol !== "USD")
+  const errors: ValidationError[] = []
+
+  if (
+    usdAmounts.length > 0 &&
+    !usdAmounts.some((amount) => isClose(amount.amount, loss, USD_TOLERANCE))
+  ) {
+    errors.push({
+      message: `Front matter \`loss\` (${formatUSD(loss)}) does not match any USD amount in the Losses or Summary sections (${usdAmounts
+        .map((amount) => amount.text)
+        .join(", ")})`,
+      line: lossField.line,
+      field: "loss"
+    })
+  }
+
+  // Every stated asset needs a price for the date, or the total means little
+  const date = typeof dateField?.value === "string" ? dateField.value : null
+  const quotes = date
+    ? assetAmounts.map((amount) => ({
+        amount,
+        price: getPrice(prices, amount.symbol, date)
+      }))
+    : []
+  const valued = quotes.flatMap(({ amount, price }) =>
+    price === null ? [] : [{ amount, price, value: amount.amount * price }]
+  )
+  const unpriced = quotes.filter(({ price }) => price === null)
+  let valuation = ""
+  if (unpriced.length > 0) {
+    // Say so, so an empty or outdated price table does not go unnoticed
+    valuation = `; no ${date} price for ${[
+      ...new Set(unpriced.map(({ amount }) => amount.symbol))
+    ].join(", ")}, so the stated assets were not valued`
+  } else if (date && valued.length > 0) {
+    const values = valued.map(({ value }) => value)
+    const total = values.reduce((sum, value) => sum + value, 0)
+    valuation = `; stated assets are worth about ${formatUSD(total)} at ${date} prices`
+
+    // Articles often list only part of the stolen assets, so a single asset
+    // matching is enough
+    const matches = (expected: number) =>
+      [total, ...values].some((value) =>
+        isClose(expected, value, PRICE_TOLERANCE)
+      )
+    const breakdown = valued
+      .map(
+        ({ amount, price, value }) =>
+          `${amount.text} × ${formatUSD(price)} ≈ ${formatUSD(value)}`
+      )
+      .join(", ")
+
+    if (usdAmounts.length === 0 && !matches(loss)) {
+      errors.push({
+        message: `Front matter \`loss\` (${formatUSD(loss)}) is more than ${
+          PRICE_TOLERANCE * 100
+        }% away from the value of the stolen assets on ${date} (${breakdown})`,
+        line: lossField.line,
+        field: "loss"
+      })
+    } else if (
+      usdAmounts.length > 0 &&
+      !usdAmounts.some((amount) => matches(amount.amount))
+    ) {
+      errors.push({
+        message: `The stolen assets were worth ${breakdown} on ${date}, more than ${
+          PRICE_TOLERANCE * 100
+        }% away from every USD amount in the Losses or Summary sections (${usdAmounts
+          .map((amount) => amount.text)
+          .join(", ")})`,
+        line: valued[0].amount.line
+      })
+    }
+  }
+
+  if (errors.length === 0) {
+    return {
+      passed: true,
+      details: `Front matter \`loss\` (${formatUSD(loss)}) is consistent with the amounts in the article${valuation}`
+    }
+  }
+
+  return {
+    passed: false,
+    details: `Front matter \`loss\` (${formatUSD(loss)}) is inconsistent with the article${valuation}`,
+    suggestions: errors.map((error) => `Line ${error.line}: ${error.message}`),
+    errors
+  }
+}
@@ -0,0 +1,199 @@
+import { Octokit } from "@octokit/rest"
+import {
+  AccessDecision,
+  AccessRule,
+  ArticleCheckCommand,
+  Commenter,
+  DenialAuditEntry,
+  Env,
+  PullRequestJob,
+  RepositoryPermission
+} from "../types"
+import {
+  ACCESS_POLICY,
+  getReviewers,
+  getReviewerTeam
+} from "../config/permissions"
+
+const PERMISSION_LEVELS: RepositoryPermission[] = [
+  "none",
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin"
+]
+
+// Denials are kept for 90 days
+const AUDIT_TTL_SECONDS = 90 * 24 * 60 * 60
+
+const AUDIT_PREFIX = "audit:denied:"
+
+async function getPermission(
+  octokit: Octokit,
+  repository: string,
+  login: string
+): Promise<RepositoryPermission> {
+  const [owner, repo] = repository.split("/")
+  try {
+    const { data } = await octokit.repos.getCollaboratorPermissionLevel({
+      owner,
+      repo,
+      username: login
+    })
+    // role_name distinguishes triage and maintain from read and write
+    const permission = (data.role_name ??
+      data.permission) as RepositoryPermission
+    return PERMISSION_LEVELS.includes(permission) ? permission : "none"
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return "none"
+    }
+    throw error
+  }
+}
+
+async function isTeamMember(
+  octokit: Octokit,
+  env: Env,
+  login: string
+): Promise<boolean> {
+  const team = getReviewerTeam(env)
+  if (!team) {
+    return false
+  }
+  try {
+    const { data } = await octokit.teams.getMembershipForUserInOrg({
+      org: team.org,
+      team_slug: team.teamSlug,
+      username: login
+    })
+    return data.state === "active"
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return false
+    }
+    throw error
+  }
+}
+
+function hasPermission(
+  permission: RepositoryPermission,
+  minimum: RepositoryPermission
+): boolean {
+  return (
+    PERMISSION_LEVELS.indexOf(permission) >= PERMISSION_LEVELS.indexOf(minimum)
+  )
+}
+
+function matchesAssociation(rule: AccessRule, commenter: Commenter): boolean {
+  return rule.associations.includes(commenter.association)
+}
+
+// Reviewers are settled from the configured list and the comment payload
+// where possible; the GitHub API is only asked when those do not decide
+export async function authorizeCommand(
+  octokit: Octokit,
+  env: Env,
+  repository: string,
+  commenter: Commenter,
+  command: ArticleCheckCommand["name"]
+): Promise<AccessDecision> {
+  if (ACCESS_POLICY.everyone.includes(command)) {
+    return { allowed: true, role: "everyone" }
+  }
+
+  const { reviewer, author } = ACCESS_POLICY
+
+  // Fetched at most once
+  let permission: RepositoryPermission | undefined
+  const getCommenterPermission = async () => {
+    if (!permission) {
+      permission = await getPermission(octokit, repository, commenter.login)
+    }
+    return permission
+  }
+
+  const isReviewer =
+    getReviewers(env).includes(commenter.login.toLowerCase()) ||
+    matchesAssociation(reviewer, commenter) ||
+    (await isTeamMember(octokit, env, commenter.login)) ||
+    hasPermission(await getCommenterPermission(), reviewer.minPermission)
+  if (isReviewer && reviewer.commands.includes(command)) {
+    return { allowed: true, role: "reviewer" }
+  }
+
+  if (commenter.isAuthor) {
+    const isTrustedAuthor =
+      matchesAssociation(author, commenter) ||
+      hasPermission(await getCommenterPermission(), author.minPermission)
+    if (isTrustedAuthor && author.commands.includes(command)) {
+      return { allowed: true, role: "author" }
+    }
+    return {
+      allowed: false,
+      role: "author",
+      reason:
+        "Checks on first contributions are started by a reviewer once they have had a look"
+    }
+  }
+
+  return {
+    allowed: false,
+    role: "everyone",
+    reason:
+      "Only the wiki reviewers and the pull request's author can run checks"
+  }
+}
+
+export function formatDenial(login: string, reason: string): string {
+  return `> 🙏 **Thanks for your interest, @${login}!**\n\n${reason}. You can still use \`/articlecheck status\` and \`/articlecheck help\`.`
+}
+
+// The entry is stored as KV metadata so listing needs no extra reads
+export async function recordDenial(
+  env: Env,
+  job: PullRequestJob,
+  commenter: Commenter,
+  command: ArticleCheckCommand["name"],
+  reason: string
+): Promise<void> {
+  const entry: DenialAuditEntry = {
+    timestamp: Date.now(),
+    repository: job.repository,
+    prNumber: job.prNumber,
+    login: commenter.login,
+    association: commenter.association,
+    command,
+    reason
+  }
+  console.warn(
+    `Denied ${command} for ${commenter.login} on ${job.repository}#${job.prNumber}: ${reason}`
+  )
+  await env.PR_STATE.put(
+    `${AUDIT_PREFIX}${job.repository}:${entry.timestamp}:${commenter.login}`,
+    "",
+    { expirationTtl: AUDIT_TTL_SECONDS, metadata: entry }
+  )
+}
+
+export async function listDenials(
+  env: Env,
+  repository?: string
+): Promise<DenialAuditEntry[]> {
+  const entries: DenialAuditEntry[] = []
+  let cursor: string | undefined
+  do {
+    const page = await env.PR_STATE.list<DenialAuditEntry>({
+      prefix: repository ? `${AUDIT_PREFIX}${repository}:` : AUDIT_PREFIX,
+      cursor
+    })
+    page.keys.forEach((key) => {
+      if (key.metadata) {
+        entries.push(key.metadata)
+      }
+    })
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+  return entries
+}
@@ -0,0 +1,71 @@
+import {
+  PlagiarismCheckResponse,
+  QualityCheckResult,
+  ServiceBinding,
+  ValidationError
+} from "../types"
+
+// Share of the article's shingles found elsewhere that fails the check
+export const MAX_PLAGIARISM_PERCENT = 20
+
+// Matched sentences annotated on the article, the rest is in the details
+const MAX_REPORTED_MATCHES = 10
+
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length
+}
+
+// Runs tools/plagiarism-checker through its service binding
+export async function checkPlagiarism(
+  content: string,
+  binding: ServiceBinding,
+  options: { signal?: AbortSignal; maxPercent?: number } = {}
+): Promise<QualityCheckResult> {
+  const { signal, maxPercent = MAX_PLAGIARISM_PERCENT } = options
+  // The hostname is ignored by service bindings
+  const response = await binding.fetch("https://plagiarism-checker/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: content, format: "json" }),
+    signal
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Plagiarism checker returned HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`
+    )
+  }
+
+  const result: PlagiarismCheckResponse = await response.json()
+  const passed = result.percent < maxPercent
+  let details =
+    result.sources.length === 0
+      ? "No copied text found"
+      : `${result.percent.toFixed(2)}% of the article was found in ${result.sources.length} other source(s)`
+  if (result.partial) {
+    details += ` (partial result: ${result.sentences.checked} of ${result.sentences.total} sentences checked)`
+  }
+
+  const errors: ValidationError[] = result.matches
+    .slice(0, MAX_REPORTED_MATCHES)
+    .map((match) => ({
+      message: `Sentence found at ${match.url ?? "another source"}: "${match.sentence}"`,
+      line:
+        match.start !== undefined ? lineAt(content, match.start) : undefined,
+      endLine:
+        match.end !== undefined ? lineAt(content, match.end - 1) : undefined
+    }))
+
+  return {
+    passed,
+    details,
+    suggestions: result.sources.map(
+      (source) =>
+        `Rewrite or quote the text taken from ${
+          source.url
+            ? `[${source.title ?? source.url}](${source.url})`
+            : source.title
+        } (${source.percent.toFixed(2)}% of the article)`
+    ),
+    errors: passed || errors.length === 0 ? undefined : errors
+  }
+}
@@ -0,0 +1,315 @@
+import {
+  Chain,
+  Fetcher,
+  QualityCheckResult,
+  ReferenceCategory,
+  ReferenceCheckOptions,
+  ReferenceLink,
+  ValidationError
+} from "../types"
+import { parseArticle } from "../utils/markdown"
+import {
+  CATEGORY_DOMAINS,
+  EXPLORERS,
+  ExplorerSource
+} from "../config/referenceSources"
+
+const DEFAULT_MAX_REQUESTS = 20
+const DEFAULT_TIMEOUT_MS = 5000
+
+// Servers that refuse HEAD or bots answer with these; they say nothing
+// about whether the page exists
+const INCONCLUSIVE_STATUSES = [401, 403, 405, 429]
+
+const BASE58 = "[1-9A-HJ-NP-Za-km-z]"
+
+const FORMATS: Record<Chain, { tx: RegExp; address: RegExp }> = {
+  evm: {
+    tx: /^0x[0-9a-fA-F]{64}$/,
+    address: /^0x[0-9a-fA-F]{40}$/
+  },
+  bitcoin: {
+    tx: /^[0-9a-fA-F]{64}$/,
+    address: new RegExp(
+      `^(?:[13]${BASE58}{25,34}|bc1[02-9ac-hj-np-z]{39,59})$`,
+      "i"
+    )
+  },
+  solana: {
+    tx: new RegExp(`^${BASE58}{86,88}$`),
+    address: new RegExp(`^${BASE58}{32,44}$`)
+  },
+  tron: {
+    tx: /^[0-9a-fA-F]{64}$/,
+    address: new RegExp(`^T${BASE58}{33}$`)
+  }
+}
+
+const CHAIN_NAMES: Record<Chain, string> = {
+  evm: "EVM",
+  bitcoin: "Bitcoin",
+  solana: "Solana",
+  tron: "Tron"
+}
+
+// Inline links with one level of nested parentheses (Wikipedia URLs),
+// autolinks and reference definitions
+const LINK_PATTERNS = [
+  /\[[^\]]*\]\(\s*<?(https?:\/\/(?:[^()\s>]|\([^()\s]*\))+)>?(?:\s+"[^"]*")?\s*\)/g,
+  /<(https?:\/\/[^>\s]+)>/g,
+  /^\s*\[[^\]]+\]:\s*<?(https?:\/\/\S+?)>?(?:\s+"[^"]*")?\s*$/g
+]
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]]+[^\s<>()[\].,;:!?'"]/g
+
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`)
+}
+
+function findExplorer(host: string): ExplorerSource | undefined {
+  return EXPLORERS.find((explorer) =>
+    explorer.hosts.some((explorerHost) => matchesDomain(host, explorerHost))
+  )
+}
+
+// Tronscan and other single-page explorers keep the route in the fragment
+function pathSegments(url: URL): string[] {
+  const path = url.hash.startsWith("#/") ? url.hash.slice(1) : url.pathname
+  return path.split("/").filter(Boolean)
+}
+
+function classifyExplorerLink(
+  url: URL,
+  explorer: ExplorerSource
+): Pick<ReferenceLink, "chain" | "kind" | "value"> {
+  const segments = pathSegments(url)
+  let chain = explorer.chain
+
+  const chainSegments = explorer.chainSegments ?? {}
+  const isChainSegment = (segment: string) =>
+    segment.toLowerCase() in chainSegments
+
+  if (explorer.chainSegments) {
+    const segment = segments.find(isChainSegment)
+    chain = segment
+      ? (chainSegments[segment.toLowerCase()] ?? undefined)
+      : undefined
+  }
+
+  // The chain can sit on either side of the kind:
+  // /btc/tx/<hash>, /explorer/transactions/btc/<hash>
+  const kindIndex = segments.findIndex(
+    (segment) =>
+      explorer.txPaths.includes(segment.toLowerCase()) ||
+      explorer.addressPaths.includes(segment.toLowerCase())
+  )
+  const value = segments
+    .slice(kindIndex + 1)
+    .find((segment) => !isChainSegment(segment))
+  if (kindIndex === -1 || !value) {
+    return { chain }
+  }
+  const kind = explorer.txPaths.includes(segments[kindIndex].toLowerCase())
+    ? "tx"
+    : "address"
+  return { chain, kind, value }
+}
+
+function classifyCategory(url: URL): ReferenceCategory {
+  const host = url.hostname.replace(/^www\./, "").toLowerCase()
+  for (const [category, domains] of CATEGORY_DOMAINS) {
+    if (domains.some((domain) => matchesDomain(host, domain))) {
+      return category
+    }
+  }
+  if (host.startsWith("blog.") || url.pathname.startsWith("/blog")) {
+    return "protocol"
+  }
+  return "other"
+}
+
+export function classifyLink(
+  rawUrl: string,
+  line: number,
+  linked = true
+): ReferenceLink {
+  const link: ReferenceLink = { url: rawUrl, line, linked, category: "other" }
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    return link
+  }
+
+  const host = url.hostname.replace(/^www\./, "").toLowerCase()
+  const explorer = findExplorer(host)
+  if (explorer) {
+    return {
+      ...link,
+      category: "explorer",
+      ...classifyExplorerLink(url, explorer)
+    }
+  }
+  return { ...link, category: classifyCategory(url) }
+}
+
+// Collects every URL in the article body. Code blocks and inline code are
+// skipped; URLs outside link syntax are kept as unlinked.
+export function extractLinks(content: string): ReferenceLink[] {
+  const article = parseArticle(content)
+  const links: ReferenceLink[] = []
+  let inFence = false
+
+  article.lines.forEach((rawLine, index) => {
+    if (index < article.frontMatterEndLine) {
+      return
+    }
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence) {
+      return
+    }
+
+    let line = rawLine.replace(/`[^`]*`/g, (code) => " ".repeat(code.length))
+    for (const pattern of LINK_PATTERNS) {
+      line = line.replace(pattern, (match, url: string) => {
+        links.push(classifyLink(url, index + 1))
+        return " ".repeat(match.length)
+      })
+    }
+    for (const [url] of line.matchAll(URL_PATTERN)) {
+      links.push(classifyLink(url, index + 1, false))
+    }
+  })
+
+  return links
+}
+
+function validateFormat(link: ReferenceLink): string | null {
+  if (!link.chain || !link.kind || link.value === undefined) {
+    return null
+  }
+  if (FORMATS[link.chain][link.kind].test(link.value)) {
+    return null
+  }
+  const what = link.kind === "tx" ? "transaction hash" : "address"
+  return `\`${link.value}\` is not a valid ${CHAIN_NAMES[link.chain]} ${what} (${link.url})`
+}
+
+// Normalizes trivial differences so the same page linked twice is caught
+function normalizeUrl(rawUrl: string): string {
+  try {
+    const url = new URL(rawUrl)
+    url.hostname = url.hostname.replace(/^www\./, "")
+    return url.toString().replace(/\/$/, "")
+  } catch {
+    return rawUrl
+  }
+}
+
+async function headRequest(
+  url: string,
+  fetcher: Fetcher,
+  timeoutMs: number
+): Promise<string | null> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const response = await fetcher(url, {
+      method: "HEAD",
+      redirect: "follow",
+      signal: controller.signal
+    })
+    if (response.ok || INCONCLUSIVE_STATUSES.includes(response.status)) {
+      return null
+    }
+    return `Link returned HTTP ${response.status}: ${url}`
+  } catch (error) {
+    const reason = controller.signal.aborted
+      ? `timed out after ${timeoutMs}ms`
+      : error instanceof Error
+        ? error.message
+        : "request failed"
+    return `Link could not be reached (${reason}): ${url}`
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function summarize(links: ReferenceLink[]): string {
+  const counts = new Map<ReferenceCategory, number>()
+  links.forEach((link) => {
+    counts.set(link.category, (counts.get(link.category) ?? 0) + 1)
+  })
+  const parts = [...counts].map(([category, count]) => `${count} ${category}`)
+  return parts.length > 0 ? parts.join(", ") : "none"
+}
+
+export async function checkReferences(
+  content: string,
+  options: ReferenceCheckOptions = {}
+): Promise<QualityCheckResult> {
+  const links = extractLinks(content)
+  const errors: ValidationError[] = []
+  const notes: ValidationError[] = []
+
+  links.forEach((link) => {
+    const formatError = validateFormat(link)
+    if (formatError) {
+      errors.push({ message: formatError, line: link.line })
+    }
+  })
+
+  const seen = new Map<string, ReferenceLink>()
+  links.forEach((link) => {
+    const key = normalizeUrl(link.url)
+    const first = seen.get(key)
+    if (first) {
+      notes.push({
+        message: `Duplicate link, already used on line ${first.line}: ${link.url}`,
+        line: link.line
+      })
+    } else {
+      seen.set(key, link)
+    }
+    if (!link.linked) {
+      notes.push({
+        message: `Bare URL, use a descriptive [text](${link.url}) link instead`,
+        line: link.line
+      })
+    }
+  })
+
+  const { fetcher, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+  if (fetcher) {
+    const unique = [...seen.values()].slice(
+      0,
+      options.maxRequests ?? DEFAULT_MAX_REQUESTS
+    )
+    const failures = await Promise.all(
+      unique.map((link) => headRequest(link.url, fetcher, timeoutMs))
+    )
+    failures.forEach((failure, index) => {
+      if (failure) {
+        errors.push({ message: failure, line: unique[index].line })
+      }
+    })
+  }
+
+  const explorerLinks = links.filter((link) => link.kind).length
+  const details = `Found ${links.length} link(s): ${summarize(links)}; ${explorerLinks} transaction/address link(s) checked`
+  const findings = [...errors, ...notes].sort(
+    (a, b) => (a.line ?? 0) - (b.line ?? 0)
+  )
+
+  return {
+    passed: errors.length === 0,
+    details,
+    suggestions:
+      findings.length > 0
+        ? findings.map((finding) => `Line ${finding.line}: ${finding.message}`)
+        : undefined,
+    errors: errors.length > 0 ? errors : undefined
+  }
+}
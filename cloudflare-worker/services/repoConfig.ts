@@ -0,0 +1,200 @@
+import { Octokit } from "@octokit/rest"
+import {
+  CheckDefinition,
+  CheckSettings,
+  CheckType,
+  RepoConfig,
+  RepoConfigResult,
+  Severity,
+  ValidationError
+} from "../types"
+import { CHECKS, getCheck } from "./checkRegistry"
+import { parseYaml, YamlError, YamlValue } from "../utils/yaml"
+import { globToRegExp } from "../utils/glob"
+
+// Read from the pull request's base branch, so a pull request cannot relax
+// the checks that run on it
+export const CONFIG_PATH = ".articlecheck.yml"
+
+const SEVERITIES: Severity[] = ["error", "warning", "info"]
+
+function isMapping(value: YamlValue): value is { [key: string]: YamlValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isValidGlob(glob: string): boolean {
+  try {
+    globToRegExp(glob.replace(/^!/, ""))
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseCheckSettings(
+  definition: CheckDefinition,
+  value: YamlValue,
+  field: string,
+  lines: Record<string, number>,
+  errors: ValidationError[]
+): Partial<CheckSettings> {
+  const error = (message: string, key = field) =>
+    errors.push({ message, line: lines[key], field: key })
+
+  // `plagiarism: false` is short for `enabled: false`
+  if (typeof value === "boolean") {
+    return { enabled: value }
+  }
+  if (!isMapping(value)) {
+    error(`\`${field}\` must be true, false or a mapping of settings`)
+    return {}
+  }
+
+  const settings: Partial<CheckSettings> = {}
+  Object.entries(value).forEach(([key, setting]) => {
+    const path = `${field}.${key}`
+    switch (key) {
+      case "enabled":
+        if (typeof setting === "boolean") {
+          settings.enabled = setting
+        } else {
+          error(`\`${path}\` must be true or false`, path)
+        }
+        break
+      case "severity":
+        if (SEVERITIES.includes(setting as Severity)) {
+          settings.severity = setting as Severity
+        } else {
+          error(`\`${path}\` must be one of: ${SEVERITIES.join(", ")}`, path)
+        }
+        break
+      case "globs": {
+        const globs = typeof setting === "string" ? [setting] : setting
+        if (
+          Array.isArray(globs) &&
+          globs.length > 0 &&
+          globs.every((glob) => typeof glob === "string" && isValidGlob(glob))
+        ) {
+          settings.globs = globs as string[]
+        } else {
+          error(`\`${path}\` must be a glob or a list of globs`, path)
+        }
+        break
+      }
+      case "threshold":
+        if (definition.threshold === undefined) {
+          error(`The ${definition.id} check has no threshold`, path)
+        } else if (typeof setting === "number") {
+          settings.threshold = setting
+        } else {
+          error(`\`${path}\` must be a number`, path)
+        }
+        break
+      default:
+        error(
+          `Unknown setting \`${path}\`, expected enabled, severity, globs or threshold`,
+          path
+        )
+    }
+  })
+  return settings
+}
+
+export function parseRepoConfig(text: string): RepoConfigResult {
+  const config: RepoConfig = { checks: {} }
+  const errors: ValidationError[] = []
+
+  let parsed: ReturnType<typeof parseYaml>
+  try {
+    parsed = parseYaml(text)
+  } catch (error) {
+    if (error instanceof YamlError) {
+      return { config, errors: [{ message: error.message, line: error.line }] }
+    }
+    throw error
+  }
+  const { value, lines } = parsed
+
+  Object.keys(value)
+    .filter((key) => key !== "checks")
+    .forEach((key) => {
+      errors.push({
+        message: `Unknown setting \`${key}\``,
+        line: lines[key],
+        field: key
+      })
+    })
+
+  const checks = value.checks ?? {}
+  if (!isMapping(checks)) {
+    errors.push({
+      message: "`checks` must map check ids to their settings",
+      line: lines.checks,
+      field: "checks"
+    })
+    return { config, errors }
+  }
+
+  Object.entries(checks).forEach(([id, settings]) => {
+    const field = `checks.${id}`
+    const definition = getCheck(id as CheckType)
+    if (!definition) {
+      errors.push({
+        message: `Unknown check \`${id}\`, expected one of: ${CHECKS.map(
+          (check) => check.id
+        ).join(", ")}`,
+        line: lines[field],
+        field
+      })
+      return
+    }
+    config.checks[definition.id] = parseCheckSettings(
+      definition,
+      settings,
+      field,
+      lines,
+      errors
+    )
+  })
+
+  return { config, errors }
+}
+
+// A missing file means the registry defaults
+export async function loadRepoConfig(
+  octokit: Octokit,
+  repository: string,
+  ref: string
+): Promise<RepoConfigResult> {
+  const [owner, repo] = repository.split("/")
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner,
+      repo,
+      path: CONFIG_PATH,
+      ref
+    })
+    if (!("content" in data)) {
+      return { config: { checks: {} }, errors: [] }
+    }
+    return parseRepoConfig(atob(data.content.replace(/\n/g, "")))
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return { config: { checks: {} }, errors: [] }
+    }
+    throw error
+  }
+}
+
+export function resolveSettings(
+  definition: CheckDefinition,
+  config: RepoConfig
+): CheckSettings {
+  const overrides = config.checks[definition.id] ?? {}
+  return {
+    enabled: overrides.enabled ?? true,
+    severity: overrides.severity ?? definition.severity,
+    globs: overrides.globs ?? definition.globs,
+    threshold: overrides.threshold ?? definition.threshold
+  }
+}
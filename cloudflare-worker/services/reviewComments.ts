@@ -0,0 +1,128 @@
+import { Octokit } from "@octokit/rest"
+import {
+  FileCheckResults,
+  LineRange,
+  PullRequestJob,
+  ReviewComment,
+  Severity
+} from "../types"
+
+// Hidden marker that tells the worker's review comments apart from people's
+export const REVIEW_COMMENT_MARKER = "<!-- dni-article-checker:review -->"
+
+// Keeps a badly broken article from burying the pull request in comments
+export const MAX_REVIEW_COMMENTS = 50
+
+const SEVERITY_ICONS: Record<Severity, string> = {
+  error: "❌",
+  warning: "⚠️",
+  info: "ℹ️"
+}
+
+function splitRepository(repository: string): { owner: string; repo: string } {
+  const [owner, repo] = repository.split("/")
+  return { owner, repo }
+}
+
+function inDiff(ranges: LineRange[], start: number, end: number): boolean {
+  return ranges.some((range) => range.start <= start && end <= range.end)
+}
+
+// One comment per located finding of a failed check, limited to lines shown
+// in the diff. Findings elsewhere stay in the results comment.
+export function buildReviewComments(
+  fileResults: FileCheckResults[]
+): ReviewComment[] {
+  return fileResults.flatMap(({ path, results, diffRanges }) =>
+    results
+      .filter((result) => !result.passed && !result.error)
+      .flatMap((result) =>
+        (result.errors ?? []).flatMap((error) => {
+          if (error.line === undefined || !diffRanges) {
+            return []
+          }
+          const endLine = Math.max(error.endLine ?? error.line, error.line)
+          if (!inDiff(diffRanges, error.line, endLine)) {
+            return []
+          }
+
+          let body = `${SEVERITY_ICONS[result.severity ?? "error"]} ${
+            result.name ? `**${result.name}**: ` : ""
+          }${error.message}`
+          if (error.suggestion !== undefined) {
+            // An empty suggestion deletes the lines
+            body += `\n\n\`\`\`suggestion\n${
+              error.suggestion === "" ? "" : `${error.suggestion}\n`
+            }\`\`\``
+          }
+          body += `\n\n${REVIEW_COMMENT_MARKER}`
+
+          const comment: ReviewComment = {
+            path,
+            line: endLine,
+            side: "RIGHT",
+            body
+          }
+          if (endLine > error.line) {
+            comment.start_line = error.line
+            comment.start_side = "RIGHT"
+          }
+          return [comment]
+        })
+      )
+  )
+}
+
+// Posts new findings as a single review. Comments the worker already left on
+// the same line are not repeated when the pull request is checked again.
+export async function publishReview(
+  octokit: Octokit,
+  job: PullRequestJob,
+  botLogin: string,
+  fileResults: FileCheckResults[]
+): Promise<number> {
+  const { owner, repo } = splitRepository(job.repository)
+  const comments = buildReviewComments(fileResults)
+  if (comments.length === 0) {
+    return 0
+  }
+
+  const existing = await octokit.paginate(octokit.pulls.listReviewComments, {
+    owner,
+    repo,
+    pull_number: job.prNumber,
+    per_page: 100
+  })
+  const posted = new Set(
+    existing
+      .filter(
+        (comment) =>
+          comment.user?.login === botLogin &&
+          comment.body.includes(REVIEW_COMMENT_MARKER)
+      )
+      .map((comment) => `${comment.path}:${comment.line}:${comment.body}`)
+  )
+  const fresh = comments
+    .filter(
+      (comment) =>
+        !posted.has(`${comment.path}:${comment.line}:${comment.body}`)
+    )
+    .slice(0, MAX_REVIEW_COMMENTS)
+  if (fresh.length === 0) {
+    return 0
+  }
+
+  const skipped = comments.length - fresh.length
+  await octokit.pulls.createReview({
+    owner,
+    repo,
+    pull_number: job.prNumber,
+    commit_id: job.headSha,
+    event: "COMMENT",
+    body: `🔍 Article check found ${fresh.length} new issue(s) on changed lines${
+      skipped > 0 ? ` (${skipped} already reported or over the limit)` : ""
+    }. Findings outside the diff are only listed in the full report.\n\n${REVIEW_COMMENT_MARKER}`,
+    comments: fresh
+  })
+  return fresh.length
+}
@@ -0,0 +1,88 @@
+import {
+  QualityCheckResult,
+  ServiceBinding,
+  SimilarityCheckOptions,
+  SimilarityMatch
+} from "../types"
+import { parseArticle } from "../utils/markdown"
+
+// Cosine similarity of the embeddings; articles on the same topic score well
+// above 0.8, rewrites of the same text above this
+export const MAX_SIMILARITY_SCORE = 0.9
+
+export const DEFAULT_NAMESPACE = "wiki"
+
+// Similar articles listed in the report
+const TOP_K = 3
+
+function fileUrl(path: string, repository?: string): string {
+  return repository
+    ? `https://github.com/${repository}/blob/HEAD/${path}`
+    : path
+}
+
+// Queries tools/similarity_search through its service binding for published
+// articles close to this one
+export async function checkSimilarity(
+  content: string,
+  binding: ServiceBinding,
+  options: SimilarityCheckOptions = {}
+): Promise<QualityCheckResult> {
+  const {
+    apiKey,
+    namespace,
+    repository,
+    path,
+    signal,
+    maxScore = MAX_SIMILARITY_SCORE
+  } = options
+  // Front matter would make every article look alike
+  const { lines, frontMatterEndLine } = parseArticle(content)
+  const body = lines.slice(frontMatterEndLine).join("\n")
+
+  const response = await binding.fetch("https://similarity-search/", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { "X-API-Key": apiKey } : {})
+    },
+    body: JSON.stringify({
+      version: 2,
+      text: body,
+      namespace: namespace ?? DEFAULT_NAMESPACE,
+      // One more in case the article itself is already indexed
+      topK: TOP_K + 1
+    }),
+    signal
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Similarity search returned HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`
+    )
+  }
+
+  const { matches }: { matches: SimilarityMatch[] } = await response.json()
+  const similar = matches.filter((match) => match.path !== path).slice(0, TOP_K)
+  if (similar.length === 0) {
+    return { passed: true, details: "No similar published article found" }
+  }
+
+  const link = (match: SimilarityMatch) =>
+    `[${match.title ?? match.path}](${fileUrl(match.path, repository)}) (${match.score.toFixed(2)})`
+  const tooSimilar = similar.filter((match) => match.score >= maxScore)
+
+  return {
+    passed: tooSimilar.length === 0,
+    details:
+      tooSimilar.length > 0
+        ? `Nearly identical to ${tooSimilar.map(link).join(", ")}`
+        : `Most similar published articles: ${similar.map(link).join(", ")}`,
+    suggestions:
+      tooSimilar.length > 0
+        ? tooSimilar.map(
+            (match) =>
+              `Compare with ${link(match)}; if it covers the same incident, update that article instead`
+          )
+        : undefined
+  }
+}
@@ -0,0 +1,296 @@
+import { Octokit } from "@octokit/rest"
+import {
+  FileCheckResults,
+  PullRequestJob,
+  RunDiff,
+  RunRecord,
+  StickyComment,
+  StickyCommentState
+} from "../types"
+import { formatResults, getVerdict } from "../utils/formatResults"
+
+// Hidden markers that let the worker find and rewrite its own comment. The
+// status banner sits above RESULTS_MARKER, the latest results below it.
+export const STICKY_COMMENT_MARKER = "<!-- dni-article-checker -->"
+const RESULTS_MARKER = "<!-- dni-article-checker:results -->"
+const STATE_PATTERN = /<!-- dni-article-checker:state (\S*) -->/
+
+// Runs kept in the comment's history table
+const MAX_HISTORY = 10
+
+// GitHub rejects comments longer than 65536 characters
+const MAX_COMMENT_LENGTH = 65536
+// Room left above the results for the banner publishStatus adds
+const MAX_STATUS_LENGTH = 2000
+// Keeps the hidden run state from crowding out the results
+const MAX_STATE_LENGTH = 8000
+
+function splitRepository(repository: string): { owner: string; repo: string } {
+  const [owner, repo] = repository.split("/")
+  return { owner, repo }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength - 20)}\n\n_(truncated)_`
+    : text
+}
+
+// Only comments posted by the worker itself count, so a marker copied into
+// someone else's comment is never taken over
+export async function findStickyComment(
+  octokit: Octokit,
+  job: PullRequestJob,
+  botLogin: string,
+  knownId?: number
+): Promise<StickyComment | null> {
+  const { owner, repo } = splitRepository(job.repository)
+
+  if (knownId) {
+    try {
+      const { data } = await octokit.issues.getComment({
+        owner,
+        repo,
+        comment_id: knownId
+      })
+      if (
+        data.user?.login === botLogin &&
+        data.body?.includes(STICKY_COMMENT_MARKER)
+      ) {
+        return { id: data.id, body: data.body }
+      }
+    } catch (error) {
+      // Deleted by someone; fall back to searching the thread
+      if ((error as { status?: number }).status !== 404) {
+        throw error
+      }
+    }
+  }
+
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner,
+    repo,
+    issue_number: job.prNumber,
+    per_page: 100
+  })
+  const comment = comments
+    .reverse()
+    .find(
+      (comment) =>
+        comment.user?.login === botLogin &&
+        comment.body?.includes(STICKY_COMMENT_MARKER)
+    )
+  return comment ? { id: comment.id, body: comment.body as string } : null
+}
+
+export function readState(body: string): StickyCommentState {
+  const match = body.match(STATE_PATTERN)
+  if (!match) {
+    return { runs: [] }
+  }
+  try {
+    return JSON.parse(decodeURIComponent(match[1])) as StickyCommentState
+  } catch {
+    return { runs: [] }
+  }
+}
+
+// encodeURIComponent escapes ">", so the state can never close the comment
+function writeState(state: StickyCommentState): string {
+  return `<!-- dni-article-checker:state ${encodeURIComponent(
+    JSON.stringify(state)
+  )} -->`
+}
+
+// Only the latest run is diffed against, so older runs keep just what the
+// history table shows. A latest run too large to store loses its
+// suggestions, then its checks, and the next diff shows less.
+function boundState(runs: RunRecord[]): StickyCommentState {
+  const history = runs
+    .slice(0, -1)
+    .map(({ timestamp, passedFiles, totalFiles }) => ({
+      timestamp,
+      passedFiles,
+      totalFiles,
+      checks: {},
+      suggestions: []
+    }))
+  const latest = runs[runs.length - 1]
+  const candidates = [
+    latest,
+    { ...latest, suggestions: [] },
+    { ...latest, checks: {}, suggestions: [] }
+  ]
+  const states = candidates.map((run) => ({ runs: [...history, run] }))
+  return (
+    states.find((state) => writeState(state).length <= MAX_STATE_LENGTH) ??
+    states[states.length - 1]
+  )
+}
+
+export function recordRun(fileResults: FileCheckResults[]): RunRecord {
+  const checks: Record<string, boolean> = {}
+  const suggestions: string[] = []
+
+  fileResults.forEach(({ path, results }) => {
+    results.forEach((result, index) => {
+      // A check that could not run neither fixes nor breaks anything
+      if (result.error) {
+        return
+      }
+      checks[`${path} › ${result.check ?? `Check ${index + 1}`}`] =
+        result.passed
+      result.criteria?.forEach((criterion) => {
+        checks[`${path} › ${criterion.name ?? criterion.id}`] = criterion.passed
+      })
+      result.suggestions?.forEach((suggestion) => {
+        suggestions.push(`${path}: ${suggestion}`)
+      })
+    })
+  })
+
+  return {
+    timestamp: Date.now(),
+    passedFiles: fileResults.filter(
+      ({ results }) => getVerdict(results) !== "fail"
+    ).length,
+    totalFiles: fileResults.length,
+    checks,
+    suggestions
+  }
+}
+
+export function diffRuns(previous: RunRecord, current: RunRecord): RunDiff {
+  const keys = Object.keys(current.checks).filter(
+    (key) => key in previous.checks
+  )
+  return {
+    fixed: keys.filter((key) => !previous.checks[key] && current.checks[key]),
+    regressed: keys.filter(
+      (key) => previous.checks[key] && !current.checks[key]
+    ),
+    resolvedSuggestions: previous.suggestions.filter(
+      (suggestion) => !current.suggestions.includes(suggestion)
+    )
+  }
+}
+
+function formatDiff(diff: RunDiff): string {
+  let section = "## 🔁 Changes Since Previous Run\n\n"
+
+  if (
+    diff.fixed.length === 0 &&
+    diff.regressed.length === 0 &&
+    diff.resolvedSuggestions.length === 0
+  ) {
+    return `${section}_No changes._`
+  }
+
+  diff.fixed.forEach((key) => {
+    section += `- ✅ FAIL → PASS: ${key}\n`
+  })
+  diff.regressed.forEach((key) => {
+    section += `- ❌ PASS → FAIL: ${key}\n`
+  })
+  diff.resolvedSuggestions.forEach((suggestion) => {
+    section += `- 💡 Resolved: ~~${suggestion}~~\n`
+  })
+  return section.trimEnd()
+}
+
+function formatHistory(runs: RunRecord[]): string {
+  let section = "<details>\n<summary>🕘 Run history</summary>\n\n"
+  section += "| Run | Time (UTC) | Files passed |\n"
+  section += "| --- | --- | --- |\n"
+  runs
+    .map((run, index) => ({ run, number: index + 1 }))
+    .reverse()
+    .forEach(({ run, number }) => {
+      const time = new Date(run.timestamp).toISOString().replace("T", " ")
+      section += `| ${number} | ${time.slice(0, 16)} | ${run.passedFiles}/${
+        run.totalFiles
+      } |\n`
+    })
+  return `${section}\n</details>`
+}
+
+async function upsertComment(
+  octokit: Octokit,
+  job: PullRequestJob,
+  existing: StickyComment | null,
+  body: string
+): Promise<number> {
+  const { owner, repo } = splitRepository(job.repository)
+
+  if (existing) {
+    await octokit.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body
+    })
+    return existing.id
+  }
+
+  const { data } = await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: job.prNumber,
+    body
+  })
+  return data.id
+}
+
+// Replaces the results and appends the run to the history, returning the
+// comment id
+export async function publishResults(
+  octokit: Octokit,
+  job: PullRequestJob,
+  botLogin: string,
+  fileResults: FileCheckResults[],
+  knownId?: number
+): Promise<number> {
+  const existing = await findStickyComment(octokit, job, botLogin, knownId)
+  const state = existing ? readState(existing.body) : { runs: [] }
+
+  const run = recordRun(fileResults)
+  const previous = state.runs[state.runs.length - 1]
+  const runs = [...state.runs, run].slice(-MAX_HISTORY)
+
+  const sections = previous ? [formatDiff(diffRuns(previous, run))] : []
+  sections.push(formatHistory(runs))
+
+  const hiddenState = writeState(boundState(runs))
+  const header = `${STICKY_COMMENT_MARKER}\n${RESULTS_MARKER}\n`
+  const results = truncate(
+    formatResults(fileResults, sections),
+    MAX_COMMENT_LENGTH -
+      MAX_STATUS_LENGTH -
+      header.length -
+      hiddenState.length -
+      1
+  )
+
+  const body = `${header}${results}\n${hiddenState}`
+  return upsertComment(octokit, job, existing, body)
+}
+
+// Shows a status banner above the latest results, leaving them untouched
+export async function publishStatus(
+  octokit: Octokit,
+  job: PullRequestJob,
+  botLogin: string,
+  status: string,
+  knownId?: number
+): Promise<number> {
+  const existing = await findStickyComment(octokit, job, botLogin, knownId)
+  const resultsStart = existing?.body.indexOf(RESULTS_MARKER) ?? -1
+  const results =
+    existing && resultsStart !== -1 ? existing.body.slice(resultsStart) : ""
+
+  const body = `${STICKY_COMMENT_MARKER}\n${truncate(
+    status,
+    MAX_STATUS_LENGTH - STICKY_COMMENT_MARKER.length - 3
+  )}\n\n${results}`.trimEnd()
+  return upsertComment(octokit, job, existing, body)
+}
@@ -0,0 +1,287 @@
+import {
+  ArticleSchema,
+  FrontMatterField,
+  FrontMatterFieldSchema,
+  QualityCheckResult,
+  SectionSchema,
+  ValidationError
+} from "../types"
+import { parseArticle, ParsedArticle } from "../utils/markdown"
+
+// Headings such as "## Timeline:" are common in the corpus and render the same
+function normalizeHeading(text: string): string {
+  return text.trim().replace(/:$/, "").toLowerCase()
+}
+
+function matchesSection(text: string, section: SectionSchema): boolean {
+  const normalized = normalizeHeading(text)
+  return [section.title, ...(section.aliases ?? [])].some(
+    (title) => normalizeHeading(title) === normalized
+  )
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false
+  }
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+function validateField(
+  fieldSchema: FrontMatterFieldSchema,
+  field: FrontMatterField
+): string | null {
+  const { value } = field
+
+  if (value === "" || (Array.isArray(value) && value.length === 0)) {
+    return `Front matter field \`${field.key}\` is empty`
+  }
+
+  switch (fieldSchema.type) {
+    case "string":
+      return Array.isArray(value)
+        ? `Front matter field \`${field.key}\` must be a single value, not a list`
+        : null
+    case "number":
+      if (typeof value === "number") {
+        return null
+      }
+      if (fieldSchema.allowUnknown && value === "unknown") {
+        return null
+      }
+      return `Front matter field \`${field.key}\` must be a number${
+        fieldSchema.allowUnknown ? ' or "unknown"' : ""
+      } (got \`${value}\`)`
+    case "date":
+      return typeof value === "string" && isValidDate(value)
+        ? null
+        : `Front matter field \`${field.key}\` must be a date in YYYY-MM-DD format (got \`${value}\`)`
+    case "list":
+      return null
+  }
+}
+
+function validateFrontMatter(
+  article: ParsedArticle,
+  schema: ArticleSchema
+): ValidationError[] {
+  if (!article.frontMatter) {
+    return [
+      {
+        message:
+          "Missing YAML front matter (the file must start with a `---` block)",
+        line: 1
+      }
+    ]
+  }
+
+  const errors: ValidationError[] = []
+  for (const fieldSchema of schema.frontMatter) {
+    const field = article.frontMatter[fieldSchema.key]
+    if (!field) {
+      if (fieldSchema.required) {
+        errors.push({
+          message: `Missing required front matter field \`${fieldSchema.key}\``,
+          field: fieldSchema.key,
+          line: 1
+        })
+      }
+      continue
+    }
+
+    const message = validateField(fieldSchema, field)
+    if (message) {
+      errors.push({ message, field: fieldSchema.key, line: field.line })
+    }
+  }
+
+  return errors
+}
+
+// A missing section goes before the next section of the schema that the
+// article has, or after its last line
+function sectionAnchor(
+  article: ParsedArticle,
+  schema: ArticleSchema,
+  index: number
+): { line: number; before: boolean } {
+  const next = schema.sections
+    .slice(index + 1)
+    .map((later) =>
+      article.headings.find(
+        (candidate) =>
+          candidate.level === later.level &&
+          matchesSection(candidate.text, later)
+      )
+    )
+    .find((candidate) => candidate !== undefined)
+  if (next) {
+    return { line: next.line, before: true }
+  }
+
+  let last = article.lines.length
+  while (last > 1 && article.lines[last - 1].trim() === "") {
+    last--
+  }
+  return { line: Math.max(last, 1), before: false }
+}
+
+function validateSections(
+  article: ParsedArticle,
+  schema: ArticleSchema
+): ValidationError[] {
+  const errors: ValidationError[] = []
+
+  if (!schema.allowTitleHeading) {
+    article.headings
+      .filter((heading) => heading.level === 1)
+      .forEach((heading) => {
+        errors.push({
+          message:
+            "Remove the level-1 heading; the page title comes from the `title` front matter field",
+          line: heading.line,
+          suggestion: ""
+        })
+      })
+  }
+
+  const missing = new Map<
+    number,
+    { error: ValidationError; before: boolean; headings: string[] }
+  >()
+  let lastIndex = -1
+  let lastTitle = ""
+  for (const [index, section] of schema.sections.entries()) {
+    const headingIndex = article.headings.findIndex(
+      (heading) =>
+        heading.level === section.level && matchesSection(heading.text, section)
+    )
+
+    if (headingIndex === -1) {
+      const misplaced = article.headings.find((heading) =>
+        matchesSection(heading.text, section)
+      )
+      if (misplaced) {
+        errors.push({
+          message: `Section "${section.title}" must be a level-${section.level} heading (${"#".repeat(section.level)} ${section.title})`,
+          section: section.title,
+          line: misplaced.line,
+          suggestion: `${"#".repeat(section.level)} ${misplaced.text}`
+        })
+      } else if (section.required) {
+        const heading = `${"#".repeat(section.level)} ${section.title}`
+        const { line, before } = sectionAnchor(article, schema, index)
+        const error: ValidationError = {
+          message: `Missing required section "${heading}"`,
+          section: section.title,
+          line
+        }
+        // Sections missing at the same place share one suggestion
+        const group = missing.get(line) ?? { error, before, headings: [] }
+        group.headings.push(heading)
+        missing.set(line, group)
+        errors.push(error)
+      }
+      continue
+    }
+
+    const heading = article.headings[headingIndex]
+    if (section.required && headingIndex < lastIndex) {
+      errors.push({
+        message: `Section "${section.title}" should come after "${lastTitle}"`,
+        section: section.title,
+        line: heading.line
+      })
+    }
+    if (section.required) {
+      lastIndex = Math.max(lastIndex, headingIndex)
+      lastTitle = section.title
+    }
+  }
+
+  missing.forEach(({ error, before, headings }, line) => {
+    const original = article.lines[line - 1] ?? ""
+    const added = headings.join("\n\n")
+    error.suggestion = before
+      ? `${added}\n\n${original}`
+      : `${original}\n\n${added}`
+  })
+
+  return errors
+}
+
+// Languages seen in the articles, tried in order; "text" keeps the block
+// unhighlighted
+const CODE_LANGUAGES: [string, RegExp][] = [
+  [
+    "solidity",
+    /\bpragma solidity\b|\bcontract \w+|\bmsg\.sender\b|\buint(8|256)?\b|\bfunction \w+\([^)]*\)[^{]*\b(public|external|internal)\b/
+  ],
+  ["rust", /\bfn \w+|\blet mut\b|\bpub (fn|struct)\b/],
+  ["python", /^\s*(def \w+\(|from \w+ import\b|import \w+$)/m],
+  ["javascript", /\b(const|let) \w+ =|=>|\bconsole\.log\b|\bawait \w+/],
+  ["json", /^\s*[{[]\s*"/],
+  ["bash", /^\s*(\$ |npm |curl |cast |git )/m]
+]
+
+export function guessLanguage(code: string[]): string {
+  const text = code.join("\n")
+  return CODE_LANGUAGES.find(([, pattern]) => pattern.test(text))?.[0] ?? "text"
+}
+
+function validateCodeFences(article: ParsedArticle): ValidationError[] {
+  const errors: ValidationError[] = []
+  let inFence = false
+
+  article.lines.forEach((line, index) => {
+    const fence = line.match(/^\s*(```|~~~)\s*(\S*)/)
+    if (!fence) {
+      return
+    }
+    if (!inFence && fence[2] === "") {
+      const end = article.lines.findIndex(
+        (other, otherIndex) =>
+          otherIndex > index && other.trim().startsWith(fence[1])
+      )
+      const code = article.lines.slice(index + 1, end === -1 ? undefined : end)
+      errors.push({
+        message:
+          "Code block is missing a language for syntax highlighting (e.g. ```solidity)",
+        line: index + 1,
+        suggestion: `${line.trimEnd()}${guessLanguage(code)}`
+      })
+    }
+    inFence = !inFence
+  })
+
+  return errors
+}
+
+export function validateArticleStructure(
+  content: string,
+  schema: ArticleSchema
+): QualityCheckResult {
+  const article = parseArticle(content)
+  const errors = [
+    ...validateFrontMatter(article, schema),
+    ...validateSections(article, schema),
+    ...validateCodeFences(article)
+  ].sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+
+  if (errors.length === 0) {
+    return {
+      passed: true,
+      details: `Article structure matches the ${schema.name} schema`
+    }
+  }
+
+  return {
+    passed: false,
+    details: `Article structure does not match the ${schema.name} schema`,
+    suggestions: errors.map((error) =>
+      error.line ? `Line ${error.line}: ${error.message}` : error.message
+    ),
+    errors
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  FrontMatterField,
+  QualityCheckResult,
+  TaxonomyField,
+  ValidationError
+} from "../types"
+import { parseArticle, ParsedArticle } from "../utils/markdown"
+import {
+  ATTACKER_NAMES,
+  TAXONOMY,
+  TaxonomyTerm,
+  WIKI_PATH
+} from "../config/taxonomy"
+
+const FIELDS: TaxonomyField[] = ["attack-types", "entity-types"]
+
+// Front matter lists in the corpus are indented by two spaces
+const LIST_INDENT = "  "
+
+interface TaggedValue {
+  value: string
+  line: number
+  indent?: string
+}
+
+function normalize(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ")
+}
+
+function matches(term: TaxonomyTerm, value: string): boolean {
+  const normalized = normalize(value)
+  return [term.value, ...(term.aliases ?? [])].some(
+    (candidate) => normalize(candidate) === normalized
+  )
+}
+
+export function findTerm(
+  field: TaxonomyField,
+  value: string
+): TaxonomyTerm | undefined {
+  return TAXONOMY[field].find((term) => matches(term, value))
+}
+
+export function getWikiPage(term: TaxonomyTerm): string | undefined {
+  return term.wiki ? `${WIKI_PATH}${term.wiki}` : undefined
+}
+
+// Values of a list field with the line of each item; inline lists and
+// scalars sit on the key's line
+function readValues(article: ParsedArticle, field: FrontMatterField) {
+  const values = Array.isArray(field.value)
+    ? field.value
+    : [String(field.value)]
+  const tagged: TaggedValue[] = []
+  let next = field.line
+
+  for (const value of values.filter(Boolean)) {
+    const item = article.lines[next]?.match(/^(\s*)-\s+/)
+    if (
+      Array.isArray(field.value) &&
+      item &&
+      next < article.frontMatterEndLine
+    ) {
+      tagged.push({ value, line: next + 1, indent: item[1] })
+      next++
+    } else {
+      tagged.push({ value, line: field.line })
+    }
+  }
+  return tagged
+}
+
+function validateValue(field: TaxonomyField, value: string): string | null {
+  const term = findTerm(field, value)
+  if (term) {
+    return term.value === value
+      ? null
+      : `\`${value}\` is not the canonical \`${field}\` value, use \`${term.value}\``
+  }
+
+  if (
+    field === "attack-types" &&
+    ATTACKER_NAMES.some((name) => normalize(name) === normalize(value))
+  ) {
+    return `\`${value}\` names an attacker, not an attack type; describe the attribution in the Attackers section`
+  }
+
+  const otherField = FIELDS.find(
+    (other) => other !== field && findTerm(other, value)
+  )
+  if (otherField) {
+    return `\`${value}\` is an \`${otherField}\` value, not an \`${field}\` value`
+  }
+
+  return `Unknown \`${field}\` value \`${value}\`. Allowed values: ${TAXONOMY[
+    field
+  ]
+    .map((term) => term.value)
+    .join(", ")}`
+}
+
+function articleBody(article: ParsedArticle): string {
+  let inFence = false
+  return article.lines
+    .slice(article.frontMatterEndLine)
+    .filter((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence
+        return false
+      }
+      return !inFence
+    })
+    .join("\n")
+    .toLowerCase()
+}
+
+// Terms whose keywords appear in the body but are not tagged yet
+export function suggestTags(
+  content: string,
+  field: TaxonomyField = "attack-types"
+): { term: TaxonomyTerm; keyword: string }[] {
+  const article = parseArticle(content)
+  const body = articleBody(article)
+  const tagged = article.frontMatter?.[field]
+    ? readValues(article, article.frontMatter[field]).map(
+        ({ value }) => findTerm(field, value)?.value
+      )
+    : []
+
+  return TAXONOMY[field].flatMap((term) => {
+    const keyword = term.keywords?.find((keyword) =>
+      new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`).test(
+        body
+      )
+    )
+    return keyword && !tagged.includes(term.value) ? [{ term, keyword }] : []
+  })
+}
+
+export function checkTaxonomy(content: string): QualityCheckResult {
+  const article = parseArticle(content)
+  if (!article.frontMatter) {
+    return { passed: true, details: "No front matter to check" }
+  }
+
+  const errors: ValidationError[] = []
+  const notes: ValidationError[] = []
+  const summary: string[] = []
+
+  for (const field of FIELDS) {
+    const frontMatterField = article.frontMatter[field]
+    if (!frontMatterField) {
+      continue
+    }
+
+    const values = readValues(article, frontMatterField)
+    const seen = new Map<string, number>()
+    values.forEach(({ value, line, indent }) => {
+      const problem = validateValue(field, value)
+      const canonical = findTerm(field, value)?.value
+      if (problem) {
+        errors.push({
+          message: problem,
+          line,
+          field,
+          // Inline lists and scalars share the key's line, so only list items
+          // can be replaced as a whole
+          suggestion:
+            canonical && indent !== undefined
+              ? `${LIST_INDENT}- ${canonical}`
+              : undefined
+        })
+      }
+
+      if (canonical) {
+        const first = seen.get(canonical)
+        if (first !== undefined) {
+          notes.push({
+            message: `\`${value}\` repeats \`${canonical}\` from line ${first}`,
+            line,
+            field
+          })
+        } else {
+          seen.set(canonical, line)
+        }
+      }
+
+      if (indent !== undefined && indent !== LIST_INDENT) {
+        notes.push({
+          message: `Indent \`${field}\` items with two spaces (\`${LIST_INDENT}- ${value}\`)`,
+          line,
+          field
+        })
+      }
+    })
+    summary.push(`${values.length} ${field}`)
+  }
+
+  suggestTags(content).forEach(({ term, keyword }) => {
+    const wiki = getWikiPage(term)
+    notes.push({
+      message: `The article mentions "${keyword}"; consider adding \`${term.value}\` to \`attack-types\`${
+        wiki ? ` (see ${wiki})` : ""
+      }`,
+      line: article.frontMatter?.["attack-types"]?.line ?? 1,
+      field: "attack-types"
+    })
+  })
+
+  const findings = [...errors, ...notes].sort(
+    (a, b) => (a.line ?? 0) - (b.line ?? 0)
+  )
+
+  return {
+    passed: errors.length === 0,
+    details:
+      summary.length > 0
+        ? `Checked ${summary.join(" and ")} value(s) against the taxonomy`
+        : "No `attack-types` or `entity-types` in the front matter",
+    suggestions:
+      findings.length > 0
+        ? findings.map((finding) => `Line ${finding.line}: ${finding.message}`)
+        : undefined,
+    errors: errors.length > 0 ? errors : undefined
+  }
+}
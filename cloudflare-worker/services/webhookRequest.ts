@@ -0,0 +1,79 @@
+import { Env, WebhookDelivery } from "../types"
+import { verifyGitHubWebhook } from "../utils/webhookVerification"
+
+// Issue comment and pull request payloads are far below this
+export const MAX_BODY_BYTES = 1024 * 1024
+
+// Validates the request and returns the parsed delivery, or the response to
+// reject it with
+export async function readWebhook(
+  request: Request,
+  env: Env
+): Promise<WebhookDelivery | Response> {
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 })
+  }
+
+  const contentType = request.headers.get("content-type") ?? ""
+  if (!contentType.startsWith("application/json")) {
+    return new Response("Expected application/json", { status: 415 })
+  }
+
+  const contentLength = Number(request.headers.get("content-length") ?? 0)
+  if (contentLength > MAX_BODY_BYTES) {
+    return new Response("Payload too large", { status: 413 })
+  }
+  // content-length can be missing or wrong, so check what actually arrived
+  const body = await request.arrayBuffer()
+  if (body.byteLength > MAX_BODY_BYTES) {
+    return new Response("Payload too large", { status: 413 })
+  }
+  const rawBody = new TextDecoder().decode(body)
+
+  const signature = request.headers.get("x-hub-signature-256")
+  const secrets = [env.WEBHOOK_SECRET, env.WEBHOOK_SECRET_PREVIOUS ?? ""]
+  if (!signature || !(await verifyGitHubWebhook(rawBody, signature, secrets))) {
+    console.error("Invalid signature")
+    return new Response("Invalid signature", { status: 401 })
+  }
+
+  const event = request.headers.get("x-github-event")
+  const deliveryId = request.headers.get("x-github-delivery")
+  if (!event || !deliveryId) {
+    return new Response("Missing GitHub delivery headers", { status: 400 })
+  }
+
+  try {
+    return { event, deliveryId, payload: JSON.parse(rawBody) }
+  } catch {
+    return new Response("Invalid JSON", { status: 400 })
+  }
+}
+
+function getDeliveryLog(env: Env, deliveryId: string): DurableObjectStub {
+  return env.DELIVERY_LOG.get(env.DELIVERY_LOG.idFromName(deliveryId))
+}
+
+// Returns false when the delivery was seen before, e.g. GitHub redelivering
+// it after a timeout
+export async function recordDelivery(
+  env: Env,
+  deliveryId: string
+): Promise<boolean> {
+  const response = await getDeliveryLog(env, deliveryId).fetch(
+    "https://delivery-log/record",
+    { method: "POST" }
+  )
+  const { recorded } = (await response.json()) as { recorded: boolean }
+  return recorded
+}
+
+// Lets a delivery that failed be redelivered
+export async function forgetDelivery(
+  env: Env,
+  deliveryId: string
+): Promise<void> {
+  await getDeliveryLog(env, deliveryId).fetch("https://delivery-log/forget", {
+    method: "POST"
+  })
+}
@@ -1,25 +1,485 @@
 // GitHub related types
+// Payloads are only typed for the events the worker handles (see
+// WebhookPayloads); the rest are acknowledged unread
+export interface WebhookDelivery<Payload = unknown> {
+  event: string
+  deliveryId: string
+  payload: Payload
+}
+
+// The fields of the webhook payloads the worker reads; GitHub sends many more
+interface WebhookUser {
+  login: string
+}
+
+interface WebhookEventPayload {
+  action: string
+  repository: { full_name: string }
+  // Set when the event was delivered to a GitHub App installation
+  installation?: { id: number }
+}
+
+export interface PullRequestEventPayload extends WebhookEventPayload {
+  pull_request: {
+    number: number
+    head: { sha: string }
+    user: WebhookUser
+    author_association: AuthorAssociation
+  }
+}
+
+export interface IssueCommentEventPayload extends WebhookEventPayload {
+  issue: {
+    number: number
+    user: WebhookUser
+    // Only present on pull request conversations
+    pull_request?: { url: string }
+  }
+  comment: {
+    id: number
+    body?: string
+    user: WebhookUser
+    author_association: AuthorAssociation
+  }
+}
+
+// Keyed by the X-GitHub-Event header
+export interface WebhookPayloads {
+  pull_request: PullRequestEventPayload
+  issue_comment: IssueCommentEventPayload
+}
+
 export interface PullRequestJob {
   repository: string
   prNumber: number
   commentId?: number
+  // "comment" runs are requested with /articlecheck and report in a comment,
+  // "push" runs follow pull_request events and report as a check run
+  trigger?: "comment" | "push"
+  headSha?: string
+  checkRunId?: number
+  // Assigned by the PullRequestCoordinator; a newer run for the PR replaces it
+  checkId?: string
+  // GitHub App installation that delivered the webhook
+  installationId?: number
+  // Restrictions requested with `--only` and `file:` arguments
+  only?: CheckType[]
+  files?: string[]
 }
 
+// Push runs and check runs are pinned to a commit
+export interface CommitJob extends PullRequestJob {
+  headSha: string
+}
+
+// A run that reports on a GitHub check run
+export interface CheckRunJob extends CommitJob {
+  checkRunId: number
+}
+
+// Checks that `/articlecheck --only` can select
+export type CheckType =
+  | "review"
+  | "structure"
+  | "references"
+  | "losses"
+  | "taxonomy"
+  | "duplicates"
+  | "plagiarism"
+  | "similarity"
+
+export type ArticleCheckCommand =
+  | { name: "run"; only?: CheckType[]; files?: string[] }
+  | { name: "status" }
+  | { name: "cancel" }
+  | { name: "help" }
+  | { name: "invalid"; error: string }
+
 // Quality check related types
+// "error" failures fail the file, "warning" ones only flag it and "info"
+// ones are listed for the author
+export type Severity = "error" | "warning" | "info"
+
+export type Verdict = "pass" | "warning" | "fail"
+
 export interface QualityCheckResult {
+  check?: CheckType
+  // Display name and severity from the check registry
+  name?: string
+  severity?: Severity
   passed: boolean
   details: string
+  // Set when the check could not run, e.g. it timed out or a service failed;
+  // only "error" checks fail the file then
+  error?: string
   suggestions?: string[]
+  errors?: ValidationError[]
+  criteria?: CriterionAssessment[]
+  missing?: string[]
+}
+
+export interface CheckContext {
+  job: PullRequestJob
+  env: Env
+  path: string
+  content: string
+  // Who the LLM review is billed to
+  usage: LLMUsageContext
+  // The check's threshold, from .articlecheck.yml or the registry default
+  threshold?: number
+  signal: AbortSignal
+}
+
+// An entry of services/checkRegistry.ts
+export interface CheckDefinition {
+  id: CheckType
+  name: string
+  severity: Severity
+  // Paths the check applies to; a leading "!" excludes matches
+  globs: string[]
+  timeoutMs: number
+  // Checks with a default threshold can be tuned in .articlecheck.yml
+  threshold?: number
+  // e.g. a service binding the check needs
+  isAvailable?: (env: Env) => boolean
+  run(context: CheckContext): Promise<QualityCheckResult>
+}
+
+export interface CheckSettings {
+  enabled: boolean
+  severity: Severity
+  globs: string[]
+  threshold?: number
+}
+
+// .articlecheck.yml in the checked repository
+export interface RepoConfig {
+  checks: Partial<Record<CheckType, Partial<CheckSettings>>>
+}
+
+export interface RepoConfigResult {
+  config: RepoConfig
+  // Invalid entries are ignored and reported against their line
+  errors: ValidationError[]
+}
+
+// Structured LLM review, see schemas/reviewSchema.ts
+export interface CriterionAssessment {
+  id: string
+  name?: string
+  passed: boolean
+  evidence: string[]
+  feedback: string
+}
+
+export interface ReviewVerdict {
+  verdict: "PASS" | "FAIL"
+  summary: string
+  criteria: CriterionAssessment[]
+  missing: string[]
+  suggestions: string[]
+}
+
+export interface FileCheckResults {
+  path: string
+  results: QualityCheckResult[]
+  // Line ranges of the file shown in the pull request diff; review comments
+  // can only be placed on these
+  diffRanges?: LineRange[]
+}
+
+export interface LineRange {
+  start: number
+  end: number
+}
+
+// Inline pull request review comment, see services/reviewComments.ts
+export interface ReviewComment {
+  path: string
+  line: number
+  start_line?: number
+  side: "RIGHT"
+  start_side?: "RIGHT"
+  body: string
+}
+
+export interface ValidationError {
+  message: string
+  line?: number
+  // Last line of a multi-line finding
+  endLine?: number
+  field?: string
+  section?: string
+  // Replacement for lines `line` to `endLine` that fixes the finding, posted
+  // as a GitHub suggestion
+  suggestion?: string
+}
+
+// Article schema related types
+export type FrontMatterValue = string | number | string[]
+
+export interface FrontMatterField {
+  key: string
+  value: FrontMatterValue
+  line: number
+}
+
+export interface MarkdownHeading {
+  level: number
+  text: string
+  line: number
+}
+
+export interface FrontMatterFieldSchema {
+  key: string
+  // "list" also accepts a single scalar, e.g. `target-entities: Bitcoin7`
+  type: "string" | "number" | "date" | "list"
+  required: boolean
+  allowUnknown?: boolean
+}
+
+export interface SectionSchema {
+  title: string
+  level: number
+  required: boolean
+  aliases?: string[]
+}
+
+export interface ArticleSchema {
+  id: string
+  name: string
+  pathPattern: RegExp
+  frontMatter: FrontMatterFieldSchema[]
+  sections: SectionSchema[]
+  allowTitleHeading: boolean
+}
+
+// Reference related types
+export type ReferenceCategory =
+  "explorer" | "security" | "news" | "social" | "protocol" | "other"
+
+export type Chain = "evm" | "bitcoin" | "solana" | "tron"
+
+export interface ReferenceLink {
+  url: string
+  line: number
+  // false for URLs pasted into the text without link syntax
+  linked: boolean
+  category: ReferenceCategory
+  // Set for block explorer links to a transaction or address
+  chain?: Chain
+  kind?: "tx" | "address"
+  value?: string
+}
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface ReferenceCheckOptions {
+  // HEAD requests are only made when a fetcher is given
+  fetcher?: Fetcher
+  maxRequests?: number
+  timeoutMs?: number
+}
+
+// Taxonomy related types
+export type TaxonomyField = "attack-types" | "entity-types"
+
+// Duplicate detection types
+export interface IncidentIndexEntry {
+  path: string
+  title: string
+  date: string | null
+  targetEntities: string[]
+  loss: number | null
+  // Body prose without code, link targets or markup
+  text: string
+}
+
+export interface DuplicateMatch {
+  incident: IncidentIndexEntry
+  // Same entity and the same incident by date or text
+  likely: boolean
+  similarity: number
+  reasons: string[]
+}
+
+export interface DuplicateCheckOptions {
+  // Links matches to the files on GitHub
+  repository?: string
+  // Path of the article being checked, skipped in the index
+  path?: string
+  incidents?: IncidentIndexEntry[]
+}
+
+// Tool worker types
+// A service binding to another worker
+export interface ServiceBinding {
+  fetch(input: RequestInfo, init?: RequestInit): Promise<Response>
+}
+
+// The parts of the tools/plagiarism-checker JSON response the check reads
+export interface PlagiarismCheckResponse {
+  percent: number
+  partial: boolean
+  sentences: { total: number; checked: number }
+  sources: Array<{ title: string | null; url: string | null; percent: number }>
+  // Offsets into the checked text, end exclusive
+  matches: Array<{
+    sentence: string
+    url: string | null
+    start?: number
+    end?: number
+  }>
+}
+
+// A "version": 2 match from tools/similarity_search
+export interface SimilarityMatch {
+  path: string
+  title?: string
+  date?: string
+  score: number
+}
+
+export interface SimilarityCheckOptions {
+  apiKey?: string
+  namespace?: string
+  repository?: string
+  // Path of the article being checked, skipped when it is already indexed
+  path?: string
+  signal?: AbortSignal
+  // Scores from here on fail the check
+  maxScore?: number
+}
+
+// Loss related types
+// Daily USD prices keyed by symbol, then YYYY-MM-DD
+export type PriceTable = Record<string, Record<string, number>>
+
+export interface StatedAmount {
+  amount: number
+  // "USD" for dollar amounts
+  symbol: string
+  text: string
+  line: number
 }
 
 // Queue related types
 export interface QueuedCheck {
   repository: string
   prNumber: number
+  // The sticky results comment, carried over between runs
   commentId?: number
   timestamp: number
-  status: "pending" | "processing" | "completed" | "failed"
+  // Last status change, which tells a stuck check from a slow one
+  updatedAt?: number
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled"
   result?: string
+  // Deliveries that started processing, counted by the coordinator
+  attempts?: number
+  checkId?: string
+  trigger?: PullRequestJob["trigger"]
+  headSha?: string
+  checkRunId?: number
+}
+
+export interface QueuedCheckUpdate {
+  checkId?: string
+  status: QueuedCheck["status"]
+  result?: string
+  checkRunId?: number
+  commentId?: number
+}
+
+export interface EnqueueResult {
+  status: string
+  isNew: boolean
+  checkId?: string
+  // The run this one replaced, when a new commit supersedes a pending check
+  superseded?: QueuedCheck
+}
+
+// Sticky results comment types
+export interface StickyComment {
+  id: number
+  body: string
+}
+
+export interface RunRecord {
+  timestamp: number
+  passedFiles: number
+  totalFiles: number
+  // Keyed by "path › check", true when the check passed
+  checks: Record<string, boolean>
+  // Prefixed with the file path
+  suggestions: string[]
+}
+
+export interface StickyCommentState {
+  runs: RunRecord[]
+}
+
+export interface RunDiff {
+  fixed: string[]
+  regressed: string[]
+  resolvedSuggestions: string[]
+}
+
+// GitHub App related types
+export interface InstallationToken {
+  token: string
+  expiresAt: number
+}
+
+// Permission related types
+export type AuthorAssociation =
+  | "OWNER"
+  | "MEMBER"
+  | "COLLABORATOR"
+  | "CONTRIBUTOR"
+  | "FIRST_TIME_CONTRIBUTOR"
+  | "FIRST_TIMER"
+  | "MANNEQUIN"
+  | "NONE"
+
+// Ordered from least to most privileged
+export type RepositoryPermission =
+  "none" | "read" | "triage" | "write" | "maintain" | "admin"
+
+export interface AccessRule {
+  associations: AuthorAssociation[]
+  minPermission: RepositoryPermission
+  commands: ArticleCheckCommand["name"][]
+}
+
+export interface AccessPolicy {
+  // Applies to everyone on the reviewer list or team, or matching the rule
+  reviewer: AccessRule
+  // Applies to the pull request's author on their own pull request
+  author: AccessRule
+  // Commands anyone may use; they do not spend LLM budget
+  everyone: ArticleCheckCommand["name"][]
+}
+
+export interface Commenter {
+  login: string
+  association: AuthorAssociation
+  isAuthor: boolean
+}
+
+export interface AccessDecision {
+  allowed: boolean
+  role: "reviewer" | "author" | "everyone"
+  reason?: string
+}
+
+export interface DenialAuditEntry {
+  timestamp: number
+  repository: string
+  prNumber: number
+  login: string
+  association: AuthorAssociation
+  command: ArticleCheckCommand["name"]
+  reason: string
 }
 
 // Rate limit related types
@@ -30,6 +490,112 @@ export interface RateLimitState {
   timestamp: number
 }
 
+// Per-minute limits across all repositories
+export interface RateLimits {
+  requestsPerMinute: number
+  inputTokensPerMinute: number
+  outputTokensPerMinute: number
+}
+
+// Per-repository spend limits; unset limits are not enforced
+export interface TokenBudget {
+  tokensPerDay?: number
+  tokensPerMonth?: number
+  costPerDayUSD?: number
+  costPerMonthUSD?: number
+}
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  costUSD: number
+}
+
+export interface LedgerEntry extends UsageTotals {
+  updatedAt: number
+}
+
+// Returned by the rate limiter's GET /ledger for one repository
+export interface UsageLedger {
+  repository: string
+  today: UsageTotals
+  thisMonth: UsageTotals
+  // Keyed by pull request number and contributor login
+  pullRequests: Record<string, LedgerEntry>
+  contributors: Record<string, LedgerEntry>
+}
+
+// Who an LLM call is billed to
+export interface LLMUsageContext {
+  repository: string
+  prNumber: number
+  contributor?: string
+}
+
+export interface UsageReservation {
+  repository: string
+  estimatedInputTokens: number
+  maxOutputTokens: number
+  estimatedCostUSD: number
+  budget: TokenBudget
+  limits: RateLimits
+}
+
+export interface UsageCommit extends LLMUsageContext {
+  reservationId: string
+  provider: LLMProviderName
+  model: string
+  usage: LLMUsage
+  costUSD: number
+}
+
+// LLM provider related types
+export type LLMProviderName = "openrouter" | "anthropic" | "workers-ai" | "mock"
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface LLMRequest {
+  model: string
+  messages: ChatMessage[]
+  maxTokens: number
+  json?: boolean
+  signal?: AbortSignal
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  content: string
+  provider: LLMProviderName
+  model: string
+  usage?: LLMUsage
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
+
+export interface LLMTarget {
+  provider: LLMProviderName
+  model: string
+}
+
+export interface LLMConfig {
+  primary: LLMTarget
+  fallback?: LLMTarget
+  maxTokens: number
+  timeoutMs: number
+  maxRetries: number
+}
+
 // API Response types
 export interface OpenRouterResponse {
   choices: Array<{
@@ -47,8 +613,47 @@ export interface OpenRouterResponse {
 // Environment configuration
 export interface Env {
   PR_STATE: KVNamespace
+  CHECK_QUEUE: Queue<PullRequestJob>
+  PR_COORDINATOR: DurableObjectNamespace
+  RATE_LIMITER: DurableObjectNamespace
+  DELIVERY_LOG: DurableObjectNamespace
   WEBHOOK_SECRET: string
-  PAT_TOKEN: string
+  // Still accepted while the webhook secret is being rotated
+  WEBHOOK_SECRET_PREVIOUS?: string
+  // GitHub App credentials; the private key is the PEM GitHub generates
+  GITHUB_APP_ID?: string
+  GITHUB_APP_PRIVATE_KEY?: string
+  // Fallback when no GitHub App is configured, e.g. for local development
+  PAT_TOKEN?: string
   OPENROUTER_API_KEY: string
+  CLAUDE_API_KEY?: string
+  // Only used for chat completions, with any text-generation model
+  AI?: Ai<Record<string, BaseAiTextGeneration>>
   ENVIRONMENT: string
+  // Optional overrides for the per-environment defaults in config/llmConfig.ts
+  LLM_PROVIDER?: string
+  LLM_MODEL?: string
+  LLM_FALLBACK_PROVIDER?: string
+  LLM_FALLBACK_MODEL?: string
+  // JSON map of repository (or "*") to TokenBudget, see config/budgets.ts
+  LLM_BUDGETS?: string
+  // JSON RateLimits overrides, see config/rateLimits.ts
+  LLM_RATE_LIMITS?: string
+  // "true" to check that article links resolve with HEAD requests
+  REFERENCE_HEAD_CHECKS?: string
+  // Bearer token for GET /ledger and GET /audit; both are disabled when unset
+  ADMIN_TOKEN?: string
+  // JSON array of GitHub logins, same format as the WIKI_REVIEWERS secret the
+  // Actions workflows use
+  WIKI_REVIEWERS?: string
+  // "org/team-slug" whose members count as reviewers
+  REVIEWER_TEAM?: string
+  // Service bindings to the tools/ workers; their checks are skipped when
+  // unset
+  PLAGIARISM_CHECKER?: ServiceBinding
+  SIMILARITY_SEARCH?: ServiceBinding
+  // X-API-Key of the similarity_search worker
+  SIMILARITY_API_KEY?: string
+  // Namespace the published articles are ingested under
+  SIMILARITY_NAMESPACE?: string
 }
@@ -0,0 +1,118 @@
+import { ArticleCheckCommand, CheckType } from "../types"
+
+export const COMMAND = "/articlecheck"
+// Runs the same checks, including plagiarism and similarity
+export const SHORT_COMMAND = "/check"
+
+const CHECK_TYPES: CheckType[] = [
+  "review",
+  "structure",
+  "references",
+  "losses",
+  "taxonomy",
+  "duplicates",
+  "plagiarism",
+  "similarity"
+]
+
+const SUBCOMMANDS = ["status", "cancel", "help"] as const
+
+export const USAGE = `> ℹ️ **Article Check Usage**
+
+Commands must start a line of the comment:
+
+| Command | Description |
+| --- | --- |
+| \`${COMMAND}\` or \`${SHORT_COMMAND}\` | Check every added or modified markdown file |
+| \`${COMMAND} --only ${CHECK_TYPES.join(",")}\` | Run only the listed checks |
+| \`${COMMAND} file:path/to/article.md\` | Check only the given file (repeatable) |
+| \`${COMMAND} status\` | Show the state of the current check |
+| \`${COMMAND} cancel\` | Cancel the pending or running check |
+| \`${COMMAND} help\` | Show this message |`
+
+function invalid(error: string): ArticleCheckCommand {
+  return { name: "invalid", error }
+}
+
+function parseCheckTypes(value: string): CheckType[] | null {
+  const types = value.split(",").filter(Boolean)
+  if (
+    types.length === 0 ||
+    types.some((type) => !CHECK_TYPES.includes(type as CheckType))
+  ) {
+    return null
+  }
+  return [...new Set(types)] as CheckType[]
+}
+
+function parseArguments(tokens: string[]): ArticleCheckCommand {
+  const [first, ...rest] = tokens
+  const subcommand = SUBCOMMANDS.find((name) => name === first)
+  if (subcommand) {
+    return rest.length === 0
+      ? { name: subcommand }
+      : invalid(`\`${subcommand}\` does not take arguments`)
+  }
+
+  const only: CheckType[] = []
+  const files: string[] = []
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+
+    if (token === "--only" || token.startsWith("--only=")) {
+      const value = token === "--only" ? tokens[++i] : token.slice(7)
+      const types = value ? parseCheckTypes(value) : null
+      if (!types) {
+        return invalid(
+          `\`--only\` expects one or more of: ${CHECK_TYPES.join(", ")}`
+        )
+      }
+      only.push(...types)
+    } else if (token.startsWith("file:")) {
+      const path = token.slice(5).replace(/^\/+/, "")
+      if (!path.endsWith(".md")) {
+        return invalid(`\`${token}\` must point to a markdown file`)
+      }
+      files.push(path)
+    } else {
+      return invalid(`Unknown argument \`${token}\``)
+    }
+  }
+
+  return {
+    name: "run",
+    only: only.length > 0 ? [...new Set(only)] : undefined,
+    files: files.length > 0 ? [...new Set(files)] : undefined
+  }
+}
+
+// Finds the first line that starts with the command. Quoted replies and
+// fenced code are ignored so quoting the bot or documenting the command does
+// not trigger a run.
+export function parseCommand(body: string): ArticleCheckCommand | null {
+  let inFence = false
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim()
+
+    if (/^(```|~~~)/.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence) {
+      continue
+    }
+
+    // e.g. "/articlechecks" is a different word
+    const command = [COMMAND, SHORT_COMMAND].find(
+      (name) => line.startsWith(name) && !/^\S/.test(line.slice(name.length))
+    )
+    if (!command) {
+      continue
+    }
+    const rest = line.slice(command.length)
+    return parseArguments(rest.split(/\s+/).filter(Boolean))
+  }
+
+  return null
+}
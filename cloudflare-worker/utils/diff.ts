@@ -0,0 +1,17 @@
+import { LineRange } from "../types"
+
+// Lines of the new file covered by a unified diff's hunks, context included.
+// GitHub only accepts review comments on these lines.
+export function parseDiffRanges(patch: string): LineRange[] {
+  const ranges: LineRange[] = []
+  for (const match of patch.matchAll(
+    /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm
+  )) {
+    const start = Number(match[1])
+    const count = match[2] === undefined ? 1 : Number(match[2])
+    if (count > 0) {
+      ranges.push({ start, end: start + count - 1 })
+    }
+  }
+  return ranges
+}
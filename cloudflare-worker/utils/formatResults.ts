@@ -0,0 +1,123 @@
+import { FileCheckResults, QualityCheckResult, Verdict } from "../types"
+
+const VERDICT_ICONS: Record<Verdict, string> = {
+  pass: "✅",
+  warning: "⚠️",
+  fail: "❌"
+}
+
+// Only "error" checks fail the file, also when they could not run: a crashed
+// review must not let the pull request merge. Failed warnings and other
+// checks that could not run ask for a look; "info" failures are just listed.
+export function getVerdict(results: QualityCheckResult[]): Verdict {
+  const failed = results.filter((result) => !result.passed || result.error)
+  if (failed.some((result) => (result.severity ?? "error") === "error")) {
+    return "fail"
+  }
+  if (
+    failed.some((result) => result.severity === "warning") ||
+    results.some((result) => result.error)
+  ) {
+    return "warning"
+  }
+  return "pass"
+}
+
+export function fileIcon(results: QualityCheckResult[]): string {
+  return VERDICT_ICONS[getVerdict(results)]
+}
+
+function statusLine(result: QualityCheckResult): string {
+  if (result.error) {
+    return (result.severity ?? "error") === "error"
+      ? "> ❌ **Status**: ERROR (the check could not run)"
+      : "> ⚠️ **Status**: ERROR (not counted)"
+  }
+  if (result.passed) {
+    return "> ✅ **Status**: PASS"
+  }
+  switch (result.severity ?? "error") {
+    case "error":
+      return "> ❌ **Status**: FAIL"
+    case "warning":
+      return "> ⚠️ **Status**: WARNING"
+    case "info":
+      return "> ℹ️ **Status**: NOTE"
+  }
+}
+
+// Keep free text from breaking out of a markdown table cell
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+}
+
+// `sections` are appended after the per-file results, above the footer
+export function formatResults(
+  fileResults: FileCheckResults[],
+  sections: string[] = []
+): string {
+  let comment = "# 🔍 Article Quality Check Results\n\n"
+
+  const verdict = getVerdict(fileResults.flatMap(({ results }) => results))
+  comment += `**Verdict**: ${VERDICT_ICONS[verdict]} ${verdict.toUpperCase()}\n\n`
+
+  fileResults.forEach(({ path, results }) => {
+    const icon = fileIcon(results)
+
+    // One collapsible section per file, expanded unless everything passed
+    comment += `<details${icon === "✅" ? "" : " open"}>\n`
+    comment += `<summary>${icon} <code>${path}</code></summary>\n\n`
+
+    results.forEach((result, index) => {
+      comment += `### ${result.name ?? `Check ${index + 1}`}\n\n`
+
+      // Status with colored blockquote
+      comment += `${statusLine(result)}\n\n`
+
+      // Details with colored blockquote based on status
+      comment += `**Details**:\n${result.details}\n\n`
+
+      if (result.criteria && result.criteria.length > 0) {
+        comment += "| Criterion | Result | Feedback |\n"
+        comment += "| --- | --- | --- |\n"
+        result.criteria.forEach((criterion) => {
+          const evidence = criterion.evidence
+            .map((quote) => `<br>_"${tableCell(quote)}"_`)
+            .join("")
+          comment += `| ${criterion.name ?? criterion.id} | ${
+            criterion.passed ? "✅" : "❌"
+          } | ${tableCell(criterion.feedback)}${evidence} |\n`
+        })
+        comment += "\n"
+      }
+
+      if (result.missing && result.missing.length > 0) {
+        comment += "**📭 Missing**:\n"
+        result.missing.forEach((item) => {
+          comment += `- ${item}\n`
+        })
+        comment += "\n"
+      }
+
+      if (result.suggestions && result.suggestions.length > 0) {
+        comment += "**💡 Suggestions**:\n"
+        result.suggestions.forEach((suggestion: string) => {
+          comment += `- ${suggestion}\n`
+        })
+        comment += "\n"
+      }
+    })
+
+    comment += "</details>\n\n"
+  })
+
+  sections.forEach((section) => {
+    comment += `${section}\n\n`
+  })
+
+  // Add footer
+  comment += "---\n"
+  comment += "_Powered by DNI Article Checker_"
+
+  return comment
+}
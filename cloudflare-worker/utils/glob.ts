@@ -0,0 +1,40 @@
+// Supports `**` (any number of directories), `*` and `?` (within one path
+// segment) and `{a,b}` alternatives
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ""
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      // "a/**/b" also matches "a/b"
+      const slash = glob[i + 2] === "/"
+      pattern += slash ? "(?:.*/)?" : ".*"
+      i += slash ? 2 : 1
+    } else if (char === "*") {
+      pattern += "[^/]*"
+    } else if (char === "?") {
+      pattern += "[^/]"
+    } else if (char === "{") {
+      braces++
+      pattern += "(?:"
+    } else if (char === "}" && braces > 0) {
+      braces--
+      pattern += ")"
+    } else if (char === "," && braces > 0) {
+      pattern += "|"
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+// True when the path matches an including glob and no "!" glob
+export function matchesGlobs(path: string, globs: string[]): boolean {
+  const matches = (glob: string) => globToRegExp(glob).test(path)
+  const include = globs.filter((glob) => !glob.startsWith("!"))
+  const exclude = globs
+    .filter((glob) => glob.startsWith("!"))
+    .map((glob) => glob.slice(1))
+  return include.some(matches) && !exclude.some(matches)
+}
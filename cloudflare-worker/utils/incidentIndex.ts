@@ -0,0 +1,36 @@
+import { IncidentIndexEntry } from "../types"
+import { bodyText, parseArticle } from "./markdown"
+
+// What the duplicate check compares of an incident article. Builds both the
+// bundled data/incidentIndex.json and the entry for the article being checked.
+export function indexIncident(
+  path: string,
+  content: string
+): IncidentIndexEntry {
+  const article = parseArticle(content)
+  const frontMatter = article.frontMatter ?? {}
+  const { title, date, loss } = frontMatter
+
+  return {
+    path,
+    title: String(title?.value || path.split("/").pop()),
+    date: typeof date?.value === "string" ? date.value : null,
+    targetEntities: [frontMatter["target-entities"]?.value ?? []]
+      .flat()
+      .map(String)
+      .filter(Boolean),
+    loss: typeof loss?.value === "number" ? loss.value : null,
+    text: bodyText(article)
+  }
+}
+
+// The entries of data/incidentIndex.json: every incident article except the
+// section's _index.md, ordered by path
+export function buildIncidentIndex(
+  articles: { path: string; content: string }[]
+): IncidentIndexEntry[] {
+  return articles
+    .filter(({ path }) => !path.split("/").pop()?.startsWith("_"))
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    .map(({ path, content }) => indexIncident(path, content))
+}
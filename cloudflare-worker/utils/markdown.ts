@@ -0,0 +1,169 @@
+import { FrontMatterField, FrontMatterValue, MarkdownHeading } from "../types"
+
+export interface ParsedArticle {
+  frontMatter: Record<string, FrontMatterField> | null
+  // 1-based line of the closing `---`, 0 when there is no front matter
+  frontMatterEndLine: number
+  headings: MarkdownHeading[]
+  lines: string[]
+}
+
+function parseScalar(raw: string): string | number {
+  const value = raw.trim()
+  if (
+    (value.startsWith('"') && value.endsWith('"')) ||
+    (value.startsWith("'") && value.endsWith("'"))
+  ) {
+    return value.slice(1, -1)
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value)
+  }
+  return value
+}
+
+function parseInlineList(raw: string): string[] {
+  return raw
+    .trim()
+    .slice(1, -1)
+    .split(",")
+    .map((item) => String(parseScalar(item)))
+    .filter((item) => item.length > 0)
+}
+
+// Parses the small YAML subset used by the Hugo front matter in content/:
+// `key: value`, `key: [a, b]` and `key:` followed by `- item` lines
+// (indented or not).
+export function parseFrontMatter(lines: string[]): {
+  fields: Record<string, FrontMatterField>
+  endLine: number
+} | null {
+  if (lines[0]?.trim() !== "---") {
+    return null
+  }
+
+  const fields: Record<string, FrontMatterField> = {}
+  let current: FrontMatterField | null = null
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.trim() === "---") {
+      return { fields, endLine: i + 1 }
+    }
+    if (line.trim() === "" || line.trim().startsWith("#")) {
+      continue
+    }
+
+    const listItem = line.match(/^\s*-\s+(.*)$/)
+    if (listItem && current) {
+      const item = String(parseScalar(listItem[1]))
+      current.value = Array.isArray(current.value)
+        ? [...current.value, item]
+        : [item]
+      continue
+    }
+
+    const keyValue = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/)
+    if (keyValue) {
+      const [, key, rawValue] = keyValue
+      let value: FrontMatterValue = ""
+      if (rawValue.trim().startsWith("[") && rawValue.trim().endsWith("]")) {
+        value = parseInlineList(rawValue)
+      } else if (rawValue.trim() !== "") {
+        value = parseScalar(rawValue)
+      }
+      current = { key, value, line: i + 1 }
+      fields[key] = current
+    }
+  }
+
+  // Opening `---` without a closing one
+  return null
+}
+
+export function parseHeadings(
+  lines: string[],
+  startLine = 0
+): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = []
+  let inFence = false
+
+  for (let i = startLine; i < lines.length; i++) {
+    const line = lines[i]
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence) {
+      continue
+    }
+
+    const match = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line: i + 1 })
+    }
+  }
+
+  return headings
+}
+
+export function parseArticle(content: string): ParsedArticle {
+  const lines = content.replace(/\r\n/g, "\n").split("\n")
+  const frontMatter = parseFrontMatter(lines)
+  const frontMatterEndLine = frontMatter?.endLine ?? 0
+
+  return {
+    frontMatter: frontMatter?.fields ?? null,
+    frontMatterEndLine,
+    headings: parseHeadings(lines, frontMatterEndLine),
+    lines
+  }
+}
+
+// Body prose without code, images, link targets or markup. The duplicate
+// check compares articles by it.
+export function bodyText(article: ParsedArticle): string {
+  let inFence = false
+  return article.lines
+    .slice(article.frontMatterEndLine)
+    .filter((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence
+        return false
+      }
+      return !inFence
+    })
+    .join("\n")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[#*_`>|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Lines under the first heading matching one of the titles, up to the next
+// heading of the same or a higher level. `startLine` is 1-based.
+export function getSection(
+  article: ParsedArticle,
+  titles: string[]
+): { startLine: number; lines: string[] } | null {
+  const normalized = titles.map((title) => title.toLowerCase())
+  const index = article.headings.findIndex((heading) =>
+    normalized.includes(heading.text.replace(/:$/, "").trim().toLowerCase())
+  )
+  if (index === -1) {
+    return null
+  }
+
+  const heading = article.headings[index]
+  const next = article.headings
+    .slice(index + 1)
+    .find((candidate) => candidate.level <= heading.level)
+  const end = next ? next.line - 1 : article.lines.length
+  return {
+    startLine: heading.line + 1,
+    lines: article.lines.slice(heading.line, end)
+  }
+}
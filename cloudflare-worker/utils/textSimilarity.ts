@@ -0,0 +1,66 @@
+// Words that carry no information about which incident an article covers
+const STOP_WORDS = new Set(
+  (
+    "the and for that with was were are this from which their its has have had " +
+    "been not but into also than they them then there these those over after " +
+    "before about more most such only other some while when where what who " +
+    "will would could can all any each our out his her one two used use via " +
+    "attack attacker attackers hack hacked funds stolen million users platform"
+  ).split(" ")
+)
+
+export function termFrequencies(text: string): Map<string, number> {
+  const terms = new Map<string, number>()
+  for (const [word] of text.toLowerCase().matchAll(/[a-z0-9][a-z0-9'-]*/g)) {
+    if (word.length > 2 && !STOP_WORDS.has(word)) {
+      terms.set(word, (terms.get(word) ?? 0) + 1)
+    }
+  }
+  return terms
+}
+
+export function cosineSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>
+): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  a.forEach((count, term) => {
+    dot += count * (b.get(term) ?? 0)
+    normA += count * count
+  })
+  b.forEach((count) => {
+    normB += count * count
+  })
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// Words shared by every incident write-up ("exchange", "wallet") weigh
+// less than the names and details that tell incidents apart
+export function inverseDocumentFrequencies(
+  documents: Map<string, number>[]
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  documents.forEach((terms) => {
+    terms.forEach((_, term) => counts.set(term, (counts.get(term) ?? 0) + 1))
+  })
+  const weights = new Map<string, number>()
+  counts.forEach((count, term) => {
+    weights.set(term, Math.log((documents.length + 1) / (count + 1)) + 1)
+  })
+  return weights
+}
+
+export function weighTerms(
+  terms: Map<string, number>,
+  weights: Map<string, number>,
+  // Weight of terms that appear in none of the documents
+  unseenWeight: number
+): Map<string, number> {
+  const weighted = new Map<string, number>()
+  terms.forEach((count, term) => {
+    weighted.set(term, count * (weights.get(term) ?? unseenWeight))
+  })
+  return weighted
+}
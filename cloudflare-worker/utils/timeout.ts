@@ -0,0 +1,33 @@
+// Aborts the work through its signal and also races it, since bindings such
+// as Workers AI do not accept one. A `parent` signal, e.g. the check's own
+// deadline, aborts it early.
+export async function withTimeout<T>(
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>,
+  label = "Request",
+  parent?: AbortSignal
+): Promise<T> {
+  parent?.throwIfAborted()
+  const controller = new AbortController()
+  let stop: (reason: unknown) => void = () => {}
+  const stopped = new Promise<never>((_, reject) => {
+    stop = (reason) => {
+      controller.abort()
+      reject(reason)
+    }
+  })
+
+  const timer = setTimeout(
+    () => stop(new Error(`${label} timed out after ${timeoutMs}ms`)),
+    timeoutMs
+  )
+  const onAbort = () => stop(parent?.reason)
+  parent?.addEventListener("abort", onAbort)
+
+  try {
+    return await Promise.race([run(controller.signal), stopped])
+  } finally {
+    clearTimeout(timer)
+    parent?.removeEventListener("abort", onAbort)
+  }
+}
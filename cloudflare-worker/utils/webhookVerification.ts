@@ -1,25 +1,41 @@
+const SIGNATURE_PATTERN = /^sha256=([0-9a-f]{64})$/
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+// Accepts a signature made with any of the secrets, so the secret can be
+// rotated without dropping deliveries. crypto.subtle.verify compares in
+// constant time.
 export async function verifyGitHubWebhook(
   payload: string,
   signature: string,
-  secret: string
+  secrets: string[]
 ): Promise<boolean> {
+  const match = signature.match(SIGNATURE_PATTERN)
+  if (!match) {
+    return false
+  }
+
   const encoder = new TextEncoder()
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  )
-  const signedMessage = await crypto.subtle.sign(
-    "HMAC",
-    key,
-    encoder.encode(payload)
-  )
-  const expectedSignature =
-    "sha256=" +
-    Array.from(new Uint8Array(signedMessage))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-  return expectedSignature === signature
+  const signatureBytes = hexToBytes(match[1])
+  const data = encoder.encode(payload)
+
+  for (const secret of secrets.filter(Boolean)) {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    )
+    if (await crypto.subtle.verify("HMAC", key, signatureBytes, data)) {
+      return true
+    }
+  }
+  return false
 }
@@ -0,0 +1,146 @@
+export type YamlValue =
+  string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue }
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    readonly line: number
+  ) {
+    super(message)
+    this.name = "YamlError"
+  }
+}
+
+interface YamlLine {
+  indent: number
+  text: string
+  // 1-based
+  number: number
+}
+
+function parseScalar(raw: string): YamlValue {
+  const value = raw.trim()
+  if (
+    value.length >= 2 &&
+    ((value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'")))
+  ) {
+    return value.slice(1, -1)
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim()
+    return inner === "" ? [] : inner.split(",").map(parseScalar)
+  }
+  if (value === "" || value === "~" || value === "null") {
+    return null
+  }
+  if (value === "true" || value === "false") {
+    return value === "true"
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value)
+  }
+  return value
+}
+
+// "#" starts a comment at the start of a line or after whitespace, outside
+// quotes
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      quote = char === quote ? null : quote
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i)
+    }
+  }
+  return line
+}
+
+// Parses the YAML subset config files need: nested block mappings, `- item`
+// and `[a, b]` lists of scalars, and comments. Every key's line is recorded
+// under its dotted path so callers can point at bad entries.
+export function parseYaml(text: string): {
+  value: { [key: string]: YamlValue }
+  lines: Record<string, number>
+} {
+  const lines: YamlLine[] = []
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = stripComment(raw).trimEnd()
+    if (line.trim() === "" || line.trim() === "---") {
+      return
+    }
+    if (/^\s*\t/.test(line)) {
+      throw new YamlError("Tabs are not allowed for indentation", index + 1)
+    }
+    lines.push({
+      indent: line.length - line.trimStart().length,
+      text: line.trim(),
+      number: index + 1
+    })
+  })
+
+  const keyLines: Record<string, number> = {}
+  let position = 0
+
+  function parseList(indent: number): YamlValue[] {
+    const items: YamlValue[] = []
+    while (
+      position < lines.length &&
+      lines[position].indent === indent &&
+      /^-(\s|$)/.test(lines[position].text)
+    ) {
+      items.push(parseScalar(lines[position].text.slice(1)))
+      position++
+    }
+    return items
+  }
+
+  function parseMapping(
+    indent: number,
+    prefix: string
+  ): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {}
+    while (position < lines.length && lines[position].indent >= indent) {
+      const line = lines[position]
+      if (line.indent > indent) {
+        throw new YamlError("Unexpected indentation", line.number)
+      }
+      const match = line.text.match(
+        /^("[^"]*"|'[^']*'|[^:\s][^:]*?)\s*:(?:\s+(.*))?$/
+      )
+      if (!match) {
+        throw new YamlError(
+          `Expected "key: value", got "${line.text}"`,
+          line.number
+        )
+      }
+      const key = String(parseScalar(match[1]))
+      const path = prefix ? `${prefix}.${key}` : key
+      keyLines[path] = line.number
+      position++
+
+      const next = lines[position]
+      if (match[2] !== undefined) {
+        mapping[key] = parseScalar(match[2])
+      } else if (next && next.indent >= indent && /^-(\s|$)/.test(next.text)) {
+        // List items may sit at the same indentation as their key
+        mapping[key] = parseList(next.indent)
+      } else if (next && next.indent > indent) {
+        mapping[key] = parseMapping(next.indent, path)
+      } else {
+        mapping[key] = null
+      }
+    }
+    return mapping
+  }
+
+  const value = lines.length > 0 ? parseMapping(lines[0].indent, "") : {}
+  if (position < lines.length) {
+    throw new YamlError("Unexpected indentation", lines[position].number)
+  }
+  return { value, lines: keyLines }
+}
@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+import { Env, PullRequestJob, QueuedCheck } from "@/types"
+import { QueueManager } from "@/services/queueManager"
+import { DEAD_LETTER_QUEUE, handleCheckBatch } from "@/services/checkProcessor"
+import { runQualityChecks } from "@/services/qualityChecks"
+import { NonRetryableError } from "@/services/checkError"
+import { readState } from "@/services/stickyComment"
+import { createTestEnv } from "./helpers/env"
+
+// In-memory PR conversation backing the sticky comment calls
+let comments: { id: number; body: string; user: { login: string } }[] = []
+const createComment = vi.fn(async ({ body }: { body: string }) => {
+  comments.push({ id: comments.length + 1, body, user: { login: "checker" } })
+  return { data: { id: comments.length } }
+})
+const updateComment = vi.fn(
+  async ({ comment_id, body }: { comment_id: number; body: string }) => {
+    comments[comment_id - 1].body = body
+  }
+)
+const updateCheckRun = vi.fn()
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn(() => ({
+    paginate: async () => comments,
+    issues: {
+      createComment,
+      updateComment,
+      listComments: vi.fn(),
+      getComment: async ({ comment_id }: { comment_id: number }) => ({
+        data: comments[comment_id - 1]
+      })
+    },
+    checks: { update: updateCheckRun },
+    users: { getAuthenticated: async () => ({ data: { login: "checker" } }) }
+  }))
+}))
+
+vi.mock("@/services/qualityChecks", () => ({
+  runQualityChecks: vi.fn()
+}))
+
+function createBatch(queue: string, job: PullRequestJob, attempts = 1) {
+  const message = {
+    id: "1",
+    timestamp: new Date(),
+    body: job,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn()
+  }
+  const batch = {
+    queue,
+    messages: [message],
+    ackAll: vi.fn(),
+    retryAll: vi.fn()
+  } as unknown as MessageBatch<PullRequestJob>
+  return { batch, message }
+}
+
+const job: PullRequestJob = { repository: "owner/repo", prNumber: 7 }
+
+describe("handleCheckBatch", () => {
+  let env: Env
+  let queueManager: QueueManager
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    comments = []
+    env = createTestEnv()
+    queueManager = new QueueManager(env)
+    await queueManager.enqueueCheck(job)
+  })
+
+  it("runs the checks, posts the results and marks the check completed", async () => {
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      { path: "a.md", results: [{ passed: true, details: "ok" }] }
+    ])
+    const { batch, message } = createBatch("article-checks", job)
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: "owner", repo: "repo", issue_number: 7 })
+    )
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.status).toBe("completed")
+    expect(check.attempts).toBe(1)
+  })
+
+  it("edits the sticky comment on the next run and diffs the results", async () => {
+    vi.mocked(runQualityChecks).mockResolvedValueOnce([
+      {
+        path: "a.md",
+        results: [
+          { passed: false, details: "bad", suggestions: ["Add a date"] }
+        ]
+      }
+    ])
+    await handleCheckBatch(createBatch("article-checks", job).batch, env)
+
+    vi.useFakeTimers()
+    vi.advanceTimersByTime(5 * 60 * 1000)
+    await queueManager.enqueueCheck(job)
+    vi.useRealTimers()
+
+    vi.mocked(runQualityChecks).mockResolvedValueOnce([
+      { path: "a.md", results: [{ passed: true, details: "ok" }] }
+    ])
+    await handleCheckBatch(createBatch("article-checks", job).batch, env)
+
+    expect(createComment).toHaveBeenCalledTimes(1)
+    expect(updateComment).toHaveBeenCalledTimes(1)
+    expect(comments).toHaveLength(1)
+    expect(comments[0].body).toContain("FAIL → PASS: a.md › Check 1")
+    expect(comments[0].body).toContain("Resolved: ~~a.md: Add a date~~")
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.commentId).toBe(1)
+  })
+
+  it("keeps the sticky comment within GitHub's size limit", async () => {
+    const suggestions = Array.from(
+      { length: 1000 },
+      (_, index) => `Rewrite paragraph ${index}`
+    )
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      {
+        path: "a.md",
+        results: [{ passed: false, details: "x".repeat(80000), suggestions }]
+      }
+    ])
+
+    await handleCheckBatch(createBatch("article-checks", job).batch, env)
+
+    const body = comments[0].body
+    expect(body.length).toBeLessThanOrEqual(65536)
+    expect(body).toContain("_(truncated)_")
+    const state = readState(body)
+    expect(state.runs).toHaveLength(1)
+    expect(state.runs[0].suggestions).toEqual([])
+    expect(state.runs[0].checks).toEqual({ "a.md › Check 1": false })
+  })
+
+  it("leaves comments that only quote the markers alone", async () => {
+    comments.push({
+      id: 1,
+      body: "<!-- dni-article-checker -->\nCopied from another PR",
+      user: { login: "someone" }
+    })
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      { path: "a.md", results: [{ passed: true, details: "ok" }] }
+    ])
+
+    await handleCheckBatch(createBatch("article-checks", job).batch, env)
+
+    expect(updateComment).not.toHaveBeenCalled()
+    expect(createComment).toHaveBeenCalledTimes(1)
+    expect(comments[0].body).toContain("Copied from another PR")
+  })
+
+  it("retries with backoff and keeps the error on the record", async () => {
+    vi.mocked(runQualityChecks).mockRejectedValue(new Error("LLM timeout"))
+    const { batch, message } = createBatch("article-checks", job, 2)
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).not.toHaveBeenCalled()
+    expect(message.retry).toHaveBeenCalledWith({ delaySeconds: 60 })
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.status).toBe("pending")
+    expect(check.result).toBe("LLM timeout")
+  })
+
+  it("fails a check a retry will not fix right away", async () => {
+    vi.mocked(runQualityChecks).mockRejectedValue(
+      new NonRetryableError("No markdown files found in the pull request")
+    )
+    const { batch, message } = createBatch("article-checks", job)
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(message.retry).not.toHaveBeenCalled()
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(
+          "Last error: `No markdown files found in the pull request`"
+        )
+      })
+    )
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.status).toBe("failed")
+  })
+
+  it("finishes a redelivered job whose first consumer died mid-run", async () => {
+    // The first delivery got as far as processing and never reported back
+    await queueManager.updateCheckStatus(job, "processing")
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      { path: "a.md", results: [{ passed: true, details: "ok" }] }
+    ])
+    const { batch, message } = createBatch("article-checks", job, 2)
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(message.retry).not.toHaveBeenCalled()
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.status).toBe("completed")
+    expect(check.attempts).toBe(2)
+  })
+
+  it("marks dead-lettered jobs as failed", async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await queueManager.updateCheckStatus(job, "processing")
+      await queueManager.updateCheckStatus(job, "pending", "LLM timeout")
+    }
+    const { batch, message } = createBatch(DEAD_LETTER_QUEUE, job)
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(runQualityChecks).not.toHaveBeenCalled()
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining("after 4 attempts")
+      })
+    )
+    const check = (await queueManager.getQueueStatus(job)) as QueuedCheck
+    expect(check.status).toBe("failed")
+  })
+
+  it("publishes push results as a check run with line annotations", async () => {
+    const pushJob: PullRequestJob = {
+      ...job,
+      trigger: "push",
+      headSha: "abc123",
+      checkRunId: 99
+    }
+    const { checkId } = await queueManager.enqueueCheck(pushJob)
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      {
+        path: "content/a.md",
+        results: [
+          {
+            passed: false,
+            details: "Structure",
+            errors: [{ message: "Missing field: date", line: 2 }]
+          }
+        ]
+      }
+    ])
+    const { batch, message } = createBatch("article-checks", {
+      ...pushJob,
+      checkId
+    })
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(createComment).not.toHaveBeenCalled()
+    expect(updateCheckRun).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        check_run_id: 99,
+        conclusion: "failure",
+        output: expect.objectContaining({
+          annotations: [
+            expect.objectContaining({ path: "content/a.md", start_line: 2 })
+          ]
+        })
+      })
+    )
+  })
+
+  it("answers comment runs in the sticky comment and the check run", async () => {
+    vi.mocked(runQualityChecks).mockResolvedValue([
+      { path: "a.md", results: [{ passed: true, details: "ok" }] }
+    ])
+    const { batch, message } = createBatch("article-checks", {
+      ...job,
+      trigger: "comment",
+      headSha: "abc123",
+      checkRunId: 99
+    })
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(createComment).toHaveBeenCalled()
+    expect(updateCheckRun).toHaveBeenLastCalledWith(
+      expect.objectContaining({ check_run_id: 99, conclusion: "success" })
+    )
+  })
+
+  it("skips jobs superseded by a newer push", async () => {
+    const pushJob: PullRequestJob = { ...job, trigger: "push", headSha: "a" }
+    const { checkId } = await queueManager.enqueueCheck(pushJob)
+    await queueManager.enqueueCheck({ ...pushJob, headSha: "b" })
+    const { batch, message } = createBatch("article-checks", {
+      ...pushJob,
+      checkId
+    })
+
+    await handleCheckBatch(batch, env)
+
+    expect(message.ack).toHaveBeenCalled()
+    expect(runQualityChecks).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest"
+
+import { parseCommand } from "@/utils/commandParser"
+
+describe("parseCommand", () => {
+  it("only reads commands at the start of a line", () => {
+    expect(parseCommand("don't run /articlecheck yet")).toBeNull()
+    expect(parseCommand("> /articlecheck\n\nThanks!")).toBeNull()
+    expect(parseCommand("```\n/articlecheck\n```")).toBeNull()
+    expect(parseCommand("/articlechecks")).toBeNull()
+    expect(parseCommand("Fixed the dates.\n/articlecheck")).toEqual({
+      name: "run",
+      only: undefined,
+      files: undefined
+    })
+  })
+
+  it("accepts /check as the short form", () => {
+    expect(parseCommand("/check --only plagiarism,similarity")).toEqual({
+      name: "run",
+      only: ["plagiarism", "similarity"],
+      files: undefined
+    })
+    expect(parseCommand("/check status")).toEqual({ name: "status" })
+    expect(parseCommand("/checklist")).toBeNull()
+  })
+
+  it("parses subcommands", () => {
+    expect(parseCommand("/articlecheck status")).toEqual({ name: "status" })
+    expect(parseCommand("/articlecheck cancel")).toEqual({ name: "cancel" })
+    expect(parseCommand("/articlecheck help")).toEqual({ name: "help" })
+  })
+
+  it("parses --only and file: arguments", () => {
+    expect(
+      parseCommand(
+        "/articlecheck --only structure file:content/a.md file:/content/b.md"
+      )
+    ).toEqual({
+      name: "run",
+      only: ["structure"],
+      files: ["content/a.md", "content/b.md"]
+    })
+    expect(parseCommand("/articlecheck --only=review,structure")).toEqual({
+      name: "run",
+      only: ["review", "structure"],
+      files: undefined
+    })
+  })
+
+  it("reports invalid arguments", () => {
+    expect(parseCommand("/articlecheck --only spelling")).toMatchObject({
+      name: "invalid",
+      error: expect.stringContaining("--only")
+    })
+    expect(parseCommand("/articlecheck --only")).toMatchObject({
+      name: "invalid"
+    })
+    expect(parseCommand("/articlecheck file:image.png")).toMatchObject({
+      name: "invalid"
+    })
+    expect(parseCommand("/articlecheck status now")).toMatchObject({
+      name: "invalid"
+    })
+    expect(parseCommand("/articlecheck please")).toMatchObject({
+      name: "invalid",
+      error: "Unknown argument `please`"
+    })
+  })
+})
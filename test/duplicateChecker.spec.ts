@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest"
+import { readFileSync } from "fs"
+
+import { checkDuplicates, findDuplicates } from "@/services/duplicateChecker"
+import { buildIncidentIndex } from "@/utils/incidentIndex"
+import { IncidentIndexEntry } from "@/types"
+
+const BITCOIN7 =
+  "content/research/cyberattacks/incidents/2011-10-05-Bitcoin7.md"
+
+function incident(
+  overrides: Partial<IncidentIndexEntry> = {}
+): IncidentIndexEntry {
+  return {
+    path: "content/research/cyberattacks/incidents/2022-03-23-Ronin.md",
+    title: "Ronin Bridge Hacked",
+    date: "2022-03-23",
+    targetEntities: ["Ronin Network"],
+    loss: 624000000,
+    text: "Validator keys of the Ronin bridge were compromised and 173,600 ETH and 25.5M USDC were withdrawn.",
+    ...overrides
+  }
+}
+
+function article(frontMatter: string, body: string): string {
+  return `---\n${frontMatter}\ntitle: "Example"\n---\n\n## Summary\n\n${body}\n`
+}
+
+describe("findDuplicates", () => {
+  it("matches the same entity, date and loss", () => {
+    const [match] = findDuplicates(
+      article(
+        "date: 2022-03-29\ntarget-entities: Ronin\nloss: 625000000",
+        "Sky Mavis disclosed the theft."
+      ),
+      { incidents: [incident()] }
+    )
+
+    expect(match).toMatchObject({
+      likely: true,
+      reasons: [
+        "same target entity (Ronin)",
+        "date 2022-03-23",
+        "similar loss ($624,000,000)"
+      ]
+    })
+  })
+
+  it("reports another incident of the same entity as related only", () => {
+    const [match] = findDuplicates(
+      article(
+        "date: 2024-08-06\ntarget-entities: Ronin Network\nloss: 12000000",
+        "A misconfigured bridge upgrade allowed MEV bots to drain funds."
+      ),
+      { incidents: [incident()] }
+    )
+
+    expect(match.likely).toBe(false)
+  })
+
+  it("skips the article's own entry in the index", () => {
+    expect(
+      findDuplicates(readFileSync(BITCOIN7, "utf8"), { path: BITCOIN7 })
+    ).toEqual([])
+  })
+})
+
+describe("checkDuplicates", () => {
+  it("fails a resubmitted incident and links the existing article", () => {
+    const result = checkDuplicates(readFileSync(BITCOIN7, "utf8"), {
+      repository: "owner/repo",
+      path: "content/research/cyberattacks/incidents/2011-10-06-Bitcoin7.md"
+    })
+
+    expect(result.passed).toBe(false)
+    expect(result.details).toBe(
+      `Likely duplicate of [Bitcoin7 Hacked, Losing 5000 BTC](https://github.com/owner/repo/blob/HEAD/${BITCOIN7})`
+    )
+    expect(result.suggestions?.[0]).toMatch(/^Update the existing article/)
+    expect(result.errors).toEqual([
+      expect.objectContaining({ line: 3, field: "target-entities" })
+    ])
+  })
+
+  it("passes a new incident", () => {
+    const result = checkDuplicates(
+      article(
+        "date: 2030-01-01\ntarget-entities: Example Protocol\nloss: 1000",
+        "An unknown protocol lost a small amount."
+      )
+    )
+
+    expect(result.passed).toBe(true)
+    expect(result.details).toMatch(/^No similar incident among \d+/)
+  })
+})
+
+describe("buildIncidentIndex", () => {
+  it("indexes incident articles by path and skips the section page", () => {
+    const incidents = buildIncidentIndex([
+      {
+        path: "content/research/cyberattacks/incidents/_index.md",
+        content: "---\ntitle: Incidents\n---\n"
+      },
+      {
+        path: "content/research/cyberattacks/incidents/2030-01-01-Example.md",
+        content: article("date: 2030-01-01", "An example protocol was hacked.")
+      },
+      { path: BITCOIN7, content: readFileSync(BITCOIN7, "utf8") }
+    ])
+
+    expect(incidents.map(({ path }) => path)).toEqual([
+      BITCOIN7,
+      "content/research/cyberattacks/incidents/2030-01-01-Example.md"
+    ])
+    expect(incidents[0]).toEqual(
+      expect.objectContaining({
+        title: "Bitcoin7 Hacked, Losing 5000 BTC",
+        date: "2011-10-05",
+        targetEntities: ["Bitcoin7"],
+        loss: 32500,
+        text: expect.stringContaining("5,000 BTC")
+      })
+    )
+    expect(incidents[1]).toEqual(
+      expect.objectContaining({
+        title: "Example",
+        targetEntities: [],
+        loss: null
+      })
+    )
+  })
+})
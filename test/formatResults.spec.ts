@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest"
+
+import { formatResults, getVerdict } from "@/utils/formatResults"
+
+describe("getVerdict", () => {
+  it("only fails on failed error checks", () => {
+    expect(
+      getVerdict([
+        { passed: false, severity: "info", details: "" },
+        { passed: true, details: "" }
+      ])
+    ).toBe("pass")
+    expect(
+      getVerdict([
+        { passed: false, severity: "warning", details: "" },
+        { passed: false, severity: "info", details: "" }
+      ])
+    ).toBe("warning")
+    expect(
+      getVerdict([
+        { passed: false, severity: "warning", details: "", error: "timed out" }
+      ])
+    ).toBe("warning")
+    // A crashed review must not let the pull request merge
+    expect(
+      getVerdict([
+        { passed: false, severity: "error", details: "", error: "timed out" }
+      ])
+    ).toBe("fail")
+    // Results without a severity predate the registry and count as errors
+    expect(getVerdict([{ passed: false, details: "" }])).toBe("fail")
+  })
+})
+
+describe("formatResults", () => {
+  it("names sections after the checks and shows their severity", () => {
+    const comment = formatResults([
+      {
+        path: "content/a.md",
+        results: [
+          {
+            check: "references",
+            name: "🔗 References",
+            severity: "warning",
+            passed: false,
+            details: "Unreachable link"
+          }
+        ]
+      }
+    ])
+
+    expect(comment).toContain("**Verdict**: ⚠️ WARNING")
+    expect(comment).toContain("### 🔗 References")
+    expect(comment).toContain("> ⚠️ **Status**: WARNING")
+    expect(comment).toContain("<summary>⚠️ <code>content/a.md</code></summary>")
+  })
+})
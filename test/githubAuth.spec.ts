@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { generateKeyPairSync, createVerify } from "node:crypto"
+import { Octokit } from "@octokit/rest"
+
+import {
+  clearTokenCache,
+  createAppJWT,
+  createOctokit,
+  getBotLogin
+} from "@/services/githubAuth"
+import { createTestEnv } from "./helpers/env"
+
+const createInstallationAccessToken = vi.fn()
+const getAuthenticatedApp = vi.fn(async () => ({ data: { slug: "checker" } }))
+const getAuthenticatedUser = vi.fn(async () => ({ data: { login: "dev" } }))
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn(() => ({
+    apps: {
+      createInstallationAccessToken,
+      getAuthenticated: getAuthenticatedApp
+    },
+    users: { getAuthenticated: getAuthenticatedUser }
+  }))
+}))
+
+// GitHub generates PKCS#1 keys
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs1", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" }
+})
+
+function decode(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, "base64url").toString())
+}
+
+describe("createAppJWT", () => {
+  it("signs a short-lived RS256 token for the app", async () => {
+    const now = Date.UTC(2024, 0, 1)
+    const jwt = await createAppJWT("123", privateKey, now)
+    const [header, payload, signature] = jwt.split(".")
+
+    expect(decode(header)).toEqual({ alg: "RS256", typ: "JWT" })
+    expect(decode(payload)).toEqual({
+      iat: now / 1000 - 60,
+      exp: now / 1000 + 480,
+      iss: "123"
+    })
+    const verifier = createVerify("RSA-SHA256")
+    verifier.update(`${header}.${payload}`)
+    expect(verifier.verify(publicKey, signature, "base64url")).toBe(true)
+  })
+})
+
+describe("createOctokit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearTokenCache()
+    createInstallationAccessToken.mockResolvedValue({
+      data: {
+        token: "ghs_installation",
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+      }
+    })
+  })
+
+  it("exchanges the app JWT for an installation token and caches it", async () => {
+    const env = createTestEnv({
+      GITHUB_APP_ID: "123",
+      GITHUB_APP_PRIVATE_KEY: privateKey
+    })
+
+    await createOctokit(env, 42)
+    await createOctokit(env, 42)
+
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(1)
+    expect(createInstallationAccessToken).toHaveBeenCalledWith({
+      installation_id: 42
+    })
+    expect(Octokit).toHaveBeenLastCalledWith({ auth: "ghs_installation" })
+
+    // Other isolates pick the token up from KV
+    clearTokenCache()
+    await createOctokit(env, 42)
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(1)
+  })
+
+  it("requests a new token once the cached one is about to expire", async () => {
+    const env = createTestEnv({
+      GITHUB_APP_ID: "123",
+      GITHUB_APP_PRIVATE_KEY: privateKey
+    })
+    createInstallationAccessToken.mockResolvedValueOnce({
+      data: {
+        token: "ghs_old",
+        expires_at: new Date(Date.now() + 2 * 60 * 1000).toISOString()
+      }
+    })
+
+    await createOctokit(env, 42)
+    await createOctokit(env, 42)
+
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(2)
+  })
+
+  it("falls back to the personal access token without an app", async () => {
+    await createOctokit(createTestEnv(), 42)
+
+    expect(createInstallationAccessToken).not.toHaveBeenCalled()
+    expect(Octokit).toHaveBeenLastCalledWith({ auth: "token" })
+  })
+})
+
+describe("getBotLogin", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearTokenCache()
+  })
+
+  it("names the app's bot user and asks GitHub only once", async () => {
+    const env = createTestEnv({
+      GITHUB_APP_ID: "123",
+      GITHUB_APP_PRIVATE_KEY: privateKey
+    })
+
+    expect(await getBotLogin(env, 42)).toBe("checker[bot]")
+    expect(await getBotLogin(env, 42)).toBe("checker[bot]")
+    expect(getAuthenticatedApp).toHaveBeenCalledTimes(1)
+  })
+
+  it("uses the personal access token's user without an app", async () => {
+    expect(await getBotLogin(createTestEnv(), 42)).toBe("dev")
+    expect(getAuthenticatedApp).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,110 @@
+import { vi } from "vitest"
+
+import { Env, PullRequestJob } from "@/types"
+import { PullRequestCoordinator } from "@/durableObjects/pullRequestCoordinator"
+import { RateLimiter } from "@/durableObjects/rateLimiter"
+import { DeliveryLog } from "@/durableObjects/deliveryLog"
+
+export function createKV(): KVNamespace {
+  const store = new Map<string, { value: string; metadata?: unknown }>()
+  return {
+    get: async (key: string, type?: string) => {
+      const value = store.get(key)?.value ?? null
+      return type === "json" && value !== null ? JSON.parse(value) : value
+    },
+    put: async (
+      key: string,
+      value: string,
+      options: { metadata?: unknown } = {}
+    ) => {
+      store.set(key, { value, metadata: options.metadata })
+    },
+    delete: async (key: string) => {
+      store.delete(key)
+    },
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: [...store]
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, { metadata }]) => ({ name, metadata })),
+      list_complete: true
+    })
+  } as unknown as KVNamespace
+}
+
+export function createDurableObjectState(): DurableObjectState {
+  const store = new Map<string, unknown>()
+  let alarm: number | null = null
+  return {
+    storage: {
+      get: async (key: string) => store.get(key),
+      put: async (key: string, value: unknown) => {
+        store.set(key, value)
+      },
+      delete: async (key: string) => store.delete(key),
+      deleteAll: async () => store.clear(),
+      list: async ({ prefix = "" }: { prefix?: string } = {}) =>
+        new Map([...store].filter(([key]) => key.startsWith(prefix))),
+      getAlarm: async () => alarm,
+      setAlarm: async (time: number) => {
+        alarm = time
+      },
+      deleteAlarm: async () => {
+        alarm = null
+      }
+    }
+  } as unknown as DurableObjectState
+}
+
+// Routes stub.fetch() to in-memory instances. Requests to one instance are
+// serialized, like the Durable Object input gate does in production.
+export function createDurableObjectNamespace(
+  create: (state: DurableObjectState) => DurableObject
+): DurableObjectNamespace {
+  const instances = new Map<
+    string,
+    { object: DurableObject; queue: Promise<unknown> }
+  >()
+
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      fetch: (input: string, init?: RequestInit) => {
+        let instance = instances.get(name)
+        if (!instance) {
+          instance = {
+            object: create(createDurableObjectState()),
+            queue: Promise.resolve()
+          }
+          instances.set(name, instance)
+        }
+        const { object } = instance
+        const response = instance.queue.then(() =>
+          object.fetch(new Request(input, init))
+        )
+        instance.queue = response.catch(() => {})
+        return response
+      }
+    })
+  } as unknown as DurableObjectNamespace
+}
+
+export function createTestEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    PR_STATE: createKV(),
+    CHECK_QUEUE: { send: vi.fn() } as unknown as Queue<PullRequestJob>,
+    PR_COORDINATOR: createDurableObjectNamespace(
+      (state) => new PullRequestCoordinator(state)
+    ),
+    RATE_LIMITER: createDurableObjectNamespace(
+      (state) => new RateLimiter(state)
+    ),
+    DELIVERY_LOG: createDurableObjectNamespace(
+      (state) => new DeliveryLog(state)
+    ),
+    WEBHOOK_SECRET: "secret",
+    PAT_TOKEN: "token",
+    OPENROUTER_API_KEY: "key",
+    ENVIRONMENT: "test",
+    ...overrides
+  }
+}
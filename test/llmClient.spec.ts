@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+
+import { LLMProvider, LLMProviderName, UsageLedger } from "@/types"
+import { completeChat } from "@/services/llmClient"
+import { createProvider, LLMProviderError } from "@/providers"
+import { MockProvider } from "@/providers/mock"
+import { getLLMConfig } from "@/config/llmConfig"
+import { createTestEnv } from "./helpers/env"
+
+vi.mock("@/providers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/providers")>()),
+  createProvider: vi.fn()
+}))
+
+const messages = [{ role: "user" as const, content: "Review this" }]
+const context = { repository: "owner/repo", prNumber: 1, contributor: "alice" }
+
+function failingProvider(
+  name: LLMProviderName,
+  retryable: boolean
+): LLMProvider {
+  return {
+    name,
+    complete: vi.fn(async () => {
+      throw new LLMProviderError(`${name} down`, name, retryable)
+    })
+  }
+}
+
+describe("completeChat", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(createProvider).mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("falls back to the secondary provider after retries run out", async () => {
+    const primary = failingProvider("openrouter", true)
+    const fallback = new MockProvider(() => "{}")
+    vi.mocked(createProvider).mockImplementation((name) =>
+      name === "openrouter" ? primary : fallback
+    )
+
+    const pending = completeChat(messages, createTestEnv(), context, {
+      json: true
+    })
+    await vi.runAllTimersAsync()
+    const response = await pending
+
+    expect(primary.complete).toHaveBeenCalledTimes(3)
+    expect(response.provider).toBe("mock")
+    expect(response.content).toBe("{}")
+  })
+
+  it("does not retry errors a retry cannot fix", async () => {
+    const primary = failingProvider("openrouter", false)
+    const fallback = failingProvider("anthropic", false)
+    vi.mocked(createProvider).mockImplementation((name) =>
+      name === "openrouter" ? primary : fallback
+    )
+
+    await expect(
+      completeChat(messages, createTestEnv(), context)
+    ).rejects.toThrow("anthropic down")
+    expect(primary.complete).toHaveBeenCalledTimes(1)
+    expect(fallback.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it("reports the primary's failure when the fallback is not configured", async () => {
+    const primary = failingProvider("openrouter", false)
+    vi.mocked(createProvider).mockImplementation((name) => {
+      if (name !== "openrouter") {
+        throw new Error("CLAUDE_API_KEY is not configured")
+      }
+      return primary
+    })
+
+    await expect(
+      completeChat(messages, createTestEnv(), context)
+    ).rejects.toThrow("openrouter down")
+    expect(primary.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it("times out slow providers", async () => {
+    const slow: LLMProvider = {
+      name: "mock",
+      complete: () => new Promise(() => {})
+    }
+    vi.mocked(createProvider).mockReturnValue(slow)
+    const env = createTestEnv({ ENVIRONMENT: "development" })
+
+    const pending = completeChat(messages, env, context)
+    const assertion = expect(pending).rejects.toThrow("timed out after 10000ms")
+    await vi.advanceTimersByTimeAsync(10000)
+    await assertion
+  })
+})
+
+describe("cancellation", () => {
+  beforeEach(() => {
+    vi.mocked(createProvider).mockReset()
+  })
+
+  it("stops the request and skips the fallback when the caller aborts", async () => {
+    const complete = vi.fn(
+      (request: { signal?: AbortSignal }) =>
+        new Promise<never>((_, reject) => {
+          request.signal?.addEventListener("abort", () =>
+            reject(new Error("aborted by provider"))
+          )
+        })
+    )
+    vi.mocked(createProvider).mockImplementation((name) => ({
+      name,
+      complete
+    }))
+    const controller = new AbortController()
+
+    const pending = completeChat(messages, createTestEnv(), context, {
+      signal: controller.signal
+    })
+    await vi.waitFor(() => expect(complete).toHaveBeenCalled())
+    controller.abort(new Error("The review check timed out"))
+
+    await expect(pending).rejects.toThrow("The review check timed out")
+    expect(complete).toHaveBeenCalledTimes(1)
+    expect(complete.mock.calls[0][0].signal?.aborted).toBe(true)
+  })
+})
+
+describe("budgets", () => {
+  beforeEach(() => {
+    vi.mocked(createProvider).mockReset()
+  })
+
+  it("bills the usage reported by the provider to the PR and contributor", async () => {
+    const provider: LLMProvider = {
+      name: "openrouter",
+      complete: async (request) => ({
+        content: "{}",
+        provider: "openrouter",
+        model: request.model,
+        usage: { inputTokens: 1200, outputTokens: 300 }
+      })
+    }
+    vi.mocked(createProvider).mockReturnValue(provider)
+    const env = createTestEnv()
+
+    await completeChat(messages, env, context)
+
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName("global"))
+    const ledger = (await (
+      await limiter.fetch("https://rate-limiter/ledger?repository=owner/repo")
+    ).json()) as UsageLedger
+    expect(ledger.pullRequests["1"]).toMatchObject({
+      requests: 1,
+      inputTokens: 1200,
+      outputTokens: 300,
+      costUSD: (1200 * 0.5 + 300 * 1.5) / 1_000_000
+    })
+    expect(ledger.contributors.alice.requests).toBe(1)
+    expect(ledger.today.inputTokens).toBe(1200)
+  })
+
+  it("refuses over-budget requests before calling the provider", async () => {
+    const provider = new MockProvider()
+    const complete = vi.spyOn(provider, "complete")
+    vi.mocked(createProvider).mockReturnValue(provider)
+    const env = createTestEnv({
+      LLM_BUDGETS: JSON.stringify({ "owner/repo": { tokensPerDay: 1000 } })
+    })
+
+    await expect(completeChat(messages, env, context)).rejects.toThrow(
+      "Budget exceeded: daily limit of 1000 tokens reached"
+    )
+    expect(complete).not.toHaveBeenCalled()
+  })
+})
+
+describe("rate limits", () => {
+  beforeEach(() => {
+    vi.mocked(createProvider).mockReset()
+    vi.mocked(createProvider).mockReturnValue(new MockProvider())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("waits for the per-minute window instead of failing", async () => {
+    vi.useFakeTimers()
+    const env = createTestEnv()
+    for (let i = 0; i < 5; i++) {
+      await completeChat(messages, env, context)
+    }
+
+    let settled = false
+    const pending = completeChat(messages, env, context).finally(() => {
+      settled = true
+    })
+    await vi.advanceTimersByTimeAsync(30 * 1000)
+    expect(settled).toBe(false)
+    await vi.advanceTimersByTimeAsync(30 * 1000)
+    await expect(pending).resolves.toMatchObject({ provider: "mock" })
+  })
+
+  it("marks budget refusals as final", async () => {
+    const env = createTestEnv({
+      LLM_BUDGETS: JSON.stringify({ "owner/repo": { tokensPerDay: 1000 } })
+    })
+
+    await expect(completeChat(messages, env, context)).rejects.toMatchObject({
+      name: "LLMLimitError",
+      retryable: false
+    })
+  })
+})
+
+describe("getLLMConfig", () => {
+  it("picks the provider per environment and applies overrides", () => {
+    expect(getLLMConfig(createTestEnv()).primary.provider).toBe("openrouter")
+    expect(
+      getLLMConfig(createTestEnv({ ENVIRONMENT: "development" })).primary
+    ).toEqual({ provider: "mock", model: "mock" })
+    expect(
+      getLLMConfig(createTestEnv({ LLM_PROVIDER: "workers-ai" })).primary
+    ).toEqual({
+      provider: "workers-ai",
+      model: "@cf/meta/llama-3.1-8b-instruct"
+    })
+    expect(() => getLLMConfig(createTestEnv({ LLM_PROVIDER: "gpt" }))).toThrow(
+      'Unknown LLM provider "gpt"'
+    )
+  })
+})
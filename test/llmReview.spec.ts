@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from "vitest"
+
+import { validateWithLLM } from "@/services/llmReview"
+import { completeChat } from "@/services/llmClient"
+import { REVIEW_CRITERIA } from "@/schemas/reviewSchema"
+import { createTestEnv } from "./helpers/env"
+
+vi.mock("@/services/llmClient", () => ({ completeChat: vi.fn() }))
+
+const ARTICLE = `## Timeline
+
+On March 3 at 14:00 the attacker
+drained the pool.
+
+The team paused the contract.
+`
+
+const context = { repository: "owner/repo", prNumber: 1 }
+
+describe("validateWithLLM", () => {
+  it("pins failed criteria to the quoted passages", async () => {
+    vi.mocked(completeChat).mockResolvedValue({
+      content: JSON.stringify({
+        verdict: "FAIL",
+        summary: "Times are not in UTC",
+        criteria: REVIEW_CRITERIA.map((criterion, index) => ({
+          id: criterion.id,
+          passed: index !== 0,
+          evidence:
+            index === 0
+              ? ["at 14:00 the attacker drained the pool", "Not in the article"]
+              : ["The team paused the contract."],
+          feedback: index === 0 ? "Give times in UTC" : "OK"
+        })),
+        missing: [],
+        suggestions: []
+      })
+    } as Awaited<ReturnType<typeof completeChat>>)
+
+    const result = await validateWithLLM(ARTICLE, createTestEnv(), context)
+
+    expect(result.passed).toBe(false)
+    expect(result.errors).toEqual([
+      {
+        message: `${REVIEW_CRITERIA[0].name}: Give times in UTC`,
+        line: 3,
+        endLine: 4
+      }
+    ])
+  })
+})
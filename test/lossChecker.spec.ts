@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest"
+import { readdirSync, readFileSync } from "fs"
+
+import {
+  checkLossConsistency,
+  extractAmounts,
+  getPrice
+} from "@/services/lossChecker"
+import dailyPrices from "@/data/dailyPrices.json"
+import { PriceTable } from "@/types"
+
+const PRICES = {
+  BTC: { "2011-10-04": 5.5, "2011-10-05": 6.5 },
+  ETH: { "2022-03-23": 3000 }
+}
+
+function incident(loss: string, losses: string, date = "2011-10-05"): string {
+  return `---\ndate: ${date}\ntitle: "Example"\nloss: ${loss}\n---\n\n## Summary\n\nAn exchange was hacked.\n\n## Losses\n\n${losses}\n`
+}
+
+describe("extractAmounts", () => {
+  it("reads USD and asset amounts with multipliers", () => {
+    const amounts = extractAmounts(
+      "Lost 173,600 ETH and 25.5M USDC (about $624 million, or USD 1.2bn in total) at 10:00 UTC",
+      1
+    )
+
+    expect(amounts.map(({ amount, symbol }) => ({ amount, symbol }))).toEqual([
+      { amount: 624e6, symbol: "USD" },
+      { amount: 1.2e9, symbol: "USD" },
+      { amount: 173600, symbol: "ETH" },
+      { amount: 25.5e6, symbol: "USDC" }
+    ])
+  })
+
+  it("prices wrapped tokens as the underlying asset", () => {
+    expect(extractAmounts("120,000 wETH", 1)[0].symbol).toBe("ETH")
+  })
+})
+
+describe("getPrice", () => {
+  it("falls back to the closest earlier day", () => {
+    expect(getPrice(PRICES, "BTC", "2011-10-05")).toBe(6.5)
+    expect(getPrice(PRICES, "BTC", "2011-10-07")).toBe(6.5)
+    expect(getPrice(PRICES, "BTC", "2011-10-20")).toBeNull()
+    expect(getPrice(PRICES, "USDT", "2011-10-20")).toBe(1)
+  })
+})
+
+describe("checkLossConsistency", () => {
+  it("passes when a stated USD amount matches the loss", () => {
+    const result = checkLossConsistency(
+      incident(
+        "32500",
+        "Bitcoin7 lost around 5,000 BTC, worth approximately 32,500 USD."
+      ),
+      PRICES
+    )
+
+    expect(result.passed).toBe(true)
+  })
+
+  it("flags a loss that matches none of the USD amounts", () => {
+    const result = checkLossConsistency(
+      incident("325000", "Bitcoin7 lost around 5,000 BTC, worth $32,500."),
+      PRICES
+    )
+
+    expect(result.passed).toBe(false)
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        line: 4,
+        field: "loss",
+        message: expect.stringContaining("$32,500")
+      })
+    ])
+  })
+
+  it("values stated assets at the daily price when no USD amount is given", () => {
+    const passing = checkLossConsistency(
+      incident("32500", "Bitcoin7 lost around 5,000 BTC."),
+      PRICES
+    )
+    const failing = checkLossConsistency(
+      incident("3250000", "Bitcoin7 lost around 5,000 BTC."),
+      PRICES
+    )
+
+    expect(passing.passed).toBe(true)
+    expect(passing.details).toContain("$32,500 at 2011-10-05 prices")
+    expect(failing.passed).toBe(false)
+    expect(failing.errors?.[0].message).toContain("5,000 BTC × $6.5 ≈ $32,500")
+  })
+
+  it("checks stated assets against the stated USD amounts", () => {
+    const result = checkLossConsistency(
+      incident(
+        "32500",
+        "Bitcoin7 lost around 5,000 BTC, worth approximately 32,500 USD."
+      ),
+      { BTC: { "2011-10-05": 60 } }
+    )
+
+    expect(result.passed).toBe(false)
+    expect(result.details).toContain("$300,000 at 2011-10-05 prices")
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        line: 13,
+        message: expect.stringContaining(
+          "5,000 BTC × $60 ≈ $300,000 on 2011-10-05"
+        )
+      })
+    ])
+  })
+
+  it("names assets without a price", () => {
+    expect(
+      checkLossConsistency(incident("100", "Lost 5,000 XMR."), PRICES).details
+    ).toContain(
+      "no 2011-10-05 price for XMR, so the stated assets were not valued"
+    )
+  })
+
+  it("skips assets without a price and unknown losses", () => {
+    expect(
+      checkLossConsistency(incident("100", "Lost 5,000 XMR."), PRICES).passed
+    ).toBe(true)
+    expect(
+      checkLossConsistency(incident("unknown", "Lost $5 million."), PRICES)
+        .passed
+    ).toBe(true)
+  })
+})
+
+// Runs against the table the worker bundles, not the fixtures above
+describe("bundled price table", () => {
+  const prices = dailyPrices.prices as PriceTable
+  const symbols = Object.keys(prices)
+  const INCIDENTS = "content/research/cyberattacks/incidents"
+
+  it("is well-formed", () => {
+    expect(symbols.length).toBeGreaterThan(0)
+    symbols.forEach((symbol) => {
+      const dates = Object.keys(prices[symbol])
+      expect(symbol).toMatch(/^[A-Z0-9]+$/)
+      expect(dates).toEqual([...dates].sort())
+      dates.forEach((date) => {
+        expect(date).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+        expect(prices[symbol][date]).toBeGreaterThan(0)
+      })
+    })
+  })
+
+  it("values incidents by default and names the assets it has no price for", () => {
+    readdirSync(INCIDENTS)
+      .filter((file) => file.endsWith(".md") && file !== "_index.md")
+      .forEach((file) => {
+        const content = readFileSync(`${INCIDENTS}/${file}`, "utf8")
+        const result = checkLossConsistency(content)
+        const date = content.match(/^date: (\S+)/m)?.[1] as string
+        const unpriced = result.details.match(/no \S+ price for (.+), so/)
+
+        unpriced?.[1].split(", ").forEach((symbol) => {
+          expect(getPrice(prices, symbol, date), `${file}: ${symbol}`).toBe(
+            null
+          )
+        })
+      })
+  })
+
+  it("has Bitcoin prices since the first incident", () => {
+    expect(getPrice(prices, "BTC", "2011-10-05")).toBeGreaterThan(0)
+    expect(Object.keys(prices.BTC).at(-1)).toBe(dailyPrices.updated)
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { Octokit } from "@octokit/rest"
+
+import { Commenter, Env } from "@/types"
+import {
+  authorizeCommand,
+  listDenials,
+  recordDenial
+} from "@/services/permissions"
+import { createTestEnv } from "./helpers/env"
+
+const getCollaboratorPermissionLevel = vi.fn()
+const getMembershipForUserInOrg = vi.fn()
+const octokit = {
+  repos: { getCollaboratorPermissionLevel },
+  teams: { getMembershipForUserInOrg }
+} as unknown as Octokit
+
+const notFound = Object.assign(new Error("Not Found"), { status: 404 })
+
+function commenter(overrides: Partial<Commenter> = {}): Commenter {
+  return {
+    login: "someone",
+    association: "NONE",
+    isAuthor: false,
+    ...overrides
+  }
+}
+
+describe("authorizeCommand", () => {
+  let env: Env
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    getCollaboratorPermissionLevel.mockRejectedValue(notFound)
+    getMembershipForUserInOrg.mockRejectedValue(notFound)
+    env = createTestEnv({
+      WIKI_REVIEWERS: '["Reviewer"]',
+      REVIEWER_TEAM: "org/reviewers"
+    })
+  })
+
+  it("lets anyone ask for status and help", async () => {
+    const decision = await authorizeCommand(
+      octokit,
+      env,
+      "owner/repo",
+      commenter(),
+      "status"
+    )
+    expect(decision.allowed).toBe(true)
+    expect(getCollaboratorPermissionLevel).not.toHaveBeenCalled()
+  })
+
+  it("allows listed reviewers and owners without asking GitHub", async () => {
+    for (const user of [
+      commenter({ login: "reviewer" }),
+      commenter({ association: "OWNER" })
+    ]) {
+      const decision = await authorizeCommand(
+        octokit,
+        env,
+        "owner/repo",
+        user,
+        "run"
+      )
+      expect(decision).toEqual({ allowed: true, role: "reviewer" })
+    }
+    expect(getMembershipForUserInOrg).not.toHaveBeenCalled()
+  })
+
+  it("allows reviewer team members and write collaborators", async () => {
+    getMembershipForUserInOrg.mockResolvedValueOnce({
+      data: { state: "active" }
+    })
+    expect(
+      (await authorizeCommand(octokit, env, "owner/repo", commenter(), "run"))
+        .allowed
+    ).toBe(true)
+
+    getCollaboratorPermissionLevel.mockResolvedValueOnce({
+      data: { permission: "write", role_name: "maintain" }
+    })
+    expect(
+      (await authorizeCommand(octokit, env, "owner/repo", commenter(), "run"))
+        .allowed
+    ).toBe(true)
+  })
+
+  it("holds members and collaborators to the minimum permission", async () => {
+    getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: "read", role_name: "read" }
+    })
+    for (const association of ["MEMBER", "COLLABORATOR"] as const) {
+      const decision = await authorizeCommand(
+        octokit,
+        env,
+        "owner/repo",
+        commenter({ association }),
+        "run"
+      )
+      expect(decision.allowed).toBe(false)
+    }
+
+    getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: "write", role_name: "write" }
+    })
+    expect(
+      (
+        await authorizeCommand(
+          octokit,
+          env,
+          "owner/repo",
+          commenter({ association: "MEMBER" }),
+          "run"
+        )
+      ).allowed
+    ).toBe(true)
+  })
+
+  it("applies the author rules to the pull request's author", async () => {
+    const returning = await authorizeCommand(
+      octokit,
+      env,
+      "owner/repo",
+      commenter({ association: "CONTRIBUTOR", isAuthor: true }),
+      "run"
+    )
+    expect(returning).toEqual({ allowed: true, role: "author" })
+
+    const firstTimer = await authorizeCommand(
+      octokit,
+      env,
+      "owner/repo",
+      commenter({ association: "FIRST_TIME_CONTRIBUTOR", isAuthor: true }),
+      "run"
+    )
+    expect(firstTimer.allowed).toBe(false)
+    expect(firstTimer.role).toBe("author")
+    // Once per decision, shared by the reviewer and author rules
+    expect(getCollaboratorPermissionLevel).toHaveBeenCalledTimes(2)
+  })
+
+  it("denies other commenters", async () => {
+    const decision = await authorizeCommand(
+      octokit,
+      env,
+      "owner/repo",
+      commenter({ association: "CONTRIBUTOR" }),
+      "cancel"
+    )
+    expect(decision.allowed).toBe(false)
+    expect(decision.reason).toContain("Only the wiki reviewers")
+  })
+})
+
+describe("recordDenial", () => {
+  it("keeps an audit log per repository", async () => {
+    const env = createTestEnv()
+    const job = { repository: "owner/repo", prNumber: 3 }
+    await recordDenial(env, job, commenter(), "run", "Not allowed")
+    await recordDenial(
+      env,
+      { ...job, repository: "owner/repo2" },
+      commenter(),
+      "run",
+      "Not allowed"
+    )
+
+    const entries = await listDenials(env, "owner/repo")
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      login: "someone",
+      prNumber: 3,
+      command: "run",
+      reason: "Not allowed"
+    })
+    expect(await listDenials(env)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+
+import { Env, PullRequestJob } from "@/types"
+import { QueueManager } from "@/services/queueManager"
+import { createTestEnv } from "./helpers/env"
+
+const job: PullRequestJob = { repository: "owner/repo", prNumber: 1 }
+
+describe("PullRequestCoordinator", () => {
+  let env: Env
+  let queueManager: QueueManager
+
+  beforeEach(() => {
+    env = createTestEnv()
+    queueManager = new QueueManager(env)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("starts only one of two concurrent requests", async () => {
+    const results = await Promise.all([
+      queueManager.enqueueCheck(job),
+      queueManager.enqueueCheck(job)
+    ])
+
+    expect(results.filter((result) => result.isNew)).toHaveLength(1)
+    expect(results.find((result) => !result.isNew)?.status).toContain(
+      "already in progress"
+    )
+  })
+
+  it("keeps separate state per pull request", async () => {
+    await queueManager.enqueueCheck(job)
+    const other = await queueManager.enqueueCheck({ ...job, prNumber: 2 })
+
+    expect(other.isNew).toBe(true)
+  })
+
+  it("enforces the cooldown after a check finishes", async () => {
+    vi.useFakeTimers()
+    await queueManager.enqueueCheck(job)
+    await queueManager.updateCheckStatus(job, "processing")
+    await queueManager.updateCheckStatus(job, "completed", "done")
+
+    const early = await queueManager.enqueueCheck(job)
+    expect(early.isNew).toBe(false)
+    expect(early.status).toContain("Cooldown")
+
+    vi.advanceTimersByTime(5 * 60 * 1000)
+    expect((await queueManager.enqueueCheck(job)).isNew).toBe(true)
+  })
+
+  it("lets a new run replace a check that stopped making progress", async () => {
+    vi.useFakeTimers()
+    await queueManager.enqueueCheck(job)
+    vi.advanceTimersByTime(20 * 60 * 1000)
+    await queueManager.updateCheckStatus(job, "processing")
+
+    vi.advanceTimersByTime(20 * 60 * 1000)
+    const busy = await queueManager.enqueueCheck(job)
+    expect(busy.status).toContain("already in progress")
+
+    vi.advanceTimersByTime(11 * 60 * 1000)
+    const replacement = await queueManager.enqueueCheck(job)
+    expect(replacement.isNew).toBe(true)
+    expect(await queueManager.getQueueStatus(job)).toEqual(
+      expect.objectContaining({
+        status: "pending",
+        checkId: replacement.checkId
+      })
+    )
+  })
+
+  it("rejects invalid status transitions", async () => {
+    await queueManager.enqueueCheck(job)
+    await queueManager.updateCheckStatus(job, "processing")
+    await queueManager.updateCheckStatus(job, "completed")
+
+    await expect(
+      queueManager.updateCheckStatus(job, "processing")
+    ).rejects.toThrow("Invalid status transition: completed -> processing")
+    expect((await queueManager.getQueueStatus(job))?.status).toBe("completed")
+  })
+
+  it("counts every delivery that starts processing", async () => {
+    await queueManager.enqueueCheck(job)
+    await queueManager.updateCheckStatus(job, "processing")
+    await queueManager.updateCheckStatus(job, "processing")
+    await queueManager.updateCheckStatus(job, "pending", "timeout")
+    await queueManager.updateCheckStatus(job, "processing")
+
+    expect(await queueManager.getQueueStatus(job)).toMatchObject({
+      status: "processing",
+      attempts: 3
+    })
+  })
+
+  it("reports missing checks", async () => {
+    expect(await queueManager.getQueueStatus(job)).toBeNull()
+    await expect(
+      queueManager.updateCheckStatus(job, "processing")
+    ).rejects.toThrow("Check not found")
+  })
+
+  it("supersedes the in-progress run when a new commit is pushed", async () => {
+    const push: PullRequestJob = { ...job, trigger: "push", headSha: "a" }
+    const first = await queueManager.enqueueCheck(push)
+    await queueManager.updateCheckStatus(
+      { ...push, checkId: first.checkId },
+      "pending",
+      undefined,
+      { checkRunId: 10 }
+    )
+
+    const redelivery = await queueManager.enqueueCheck(push)
+    expect(redelivery.isNew).toBe(false)
+
+    const second = await queueManager.enqueueCheck({ ...push, headSha: "b" })
+    expect(second.isNew).toBe(true)
+    expect(second.superseded?.checkRunId).toBe(10)
+
+    await expect(
+      queueManager.updateCheckStatus(
+        { ...push, checkId: first.checkId },
+        "processing"
+      )
+    ).rejects.toThrow("superseded")
+  })
+
+  it("cancels a pending check so its consumer skips it", async () => {
+    const { checkId } = await queueManager.enqueueCheck(job)
+    await queueManager.updateCheckStatus(job, "cancelled")
+
+    expect(await queueManager.isCurrent({ ...job, checkId })).toBe(false)
+    await expect(
+      queueManager.updateCheckStatus(job, "processing")
+    ).rejects.toThrow("Invalid status transition: cancelled -> processing")
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { Octokit } from "@octokit/rest"
+
+import { PullRequestJob } from "@/types"
+import { runQualityChecks } from "@/services/qualityChecks"
+import { LLMLimitError } from "@/providers"
+import { createTestEnv } from "./helpers/env"
+
+const ARTICLE = `---
+title: "Example"
+---
+
+Some text.
+`
+
+function createOctokit(config?: string) {
+  return {
+    paginate: async () => [{ filename: "content/a.md", status: "added" }],
+    pulls: {
+      get: async () => ({
+        data: {
+          head: { sha: "abc" },
+          base: { ref: "main" },
+          user: { login: "a" }
+        }
+      }),
+      listFiles: vi.fn()
+    },
+    repos: {
+      getContent: vi.fn(async ({ path }: { path: string }) => {
+        if (path !== ".articlecheck.yml") {
+          return { data: { content: btoa(ARTICLE) } }
+        }
+        if (config === undefined) {
+          throw Object.assign(new Error("Not Found"), { status: 404 })
+        }
+        return { data: { content: btoa(config) } }
+      })
+    }
+  } as unknown as Octokit
+}
+
+const job: PullRequestJob = {
+  repository: "owner/wiki",
+  prNumber: 1,
+  only: ["structure", "plagiarism", "similarity"]
+}
+
+describe("runQualityChecks", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("reports failed and timed out checks without failing the run", async () => {
+    vi.useFakeTimers()
+    const env = createTestEnv({
+      PLAGIARISM_CHECKER: {
+        fetch: async () => new Response("Quota exceeded", { status: 500 })
+      },
+      // Never answers
+      SIMILARITY_SEARCH: { fetch: () => new Promise<Response>(() => {}) }
+    })
+
+    const pending = runQualityChecks(job, env, createOctokit())
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    const [{ results }] = await pending
+
+    expect(results.map((result) => result.check)).toEqual([
+      "structure",
+      "plagiarism",
+      "similarity"
+    ])
+    expect(results[1]).toMatchObject({
+      name: "🕵️ Plagiarism",
+      passed: false,
+      error: expect.stringContaining("HTTP 500")
+    })
+    expect(results[2]).toMatchObject({
+      passed: false,
+      error: "The similarity check timed out after 30000ms"
+    })
+  })
+
+  it("fails the run on retryable errors so the queue retries it", async () => {
+    const env = createTestEnv({
+      PLAGIARISM_CHECKER: {
+        fetch: async () => {
+          throw new LLMLimitError("Rate limit exceeded", true)
+        }
+      }
+    })
+
+    await expect(runQualityChecks(job, env, createOctokit())).rejects.toThrow(
+      "Rate limit exceeded"
+    )
+  })
+
+  it("skips the tool checks without their bindings", async () => {
+    const [{ results }] = await runQualityChecks(
+      job,
+      createTestEnv(),
+      createOctokit()
+    )
+
+    expect(results.map((result) => result.check)).toEqual(["structure"])
+  })
+
+  it("applies .articlecheck.yml from the base branch", async () => {
+    const octokit = createOctokit(
+      [
+        "checks:",
+        "  structure:",
+        "    severity: info",
+        "  plagiarism: false",
+        "  similarity:",
+        "    globs: [content/research/**]"
+      ].join("\n")
+    )
+    const env = createTestEnv({
+      PLAGIARISM_CHECKER: { fetch: vi.fn() },
+      SIMILARITY_SEARCH: { fetch: vi.fn() }
+    })
+
+    const [{ results }] = await runQualityChecks(job, env, octokit)
+
+    expect(octokit.repos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: ".articlecheck.yml", ref: "main" })
+    )
+    expect(results).toEqual([
+      expect.objectContaining({ check: "structure", severity: "info" })
+    ])
+  })
+
+  it("reports invalid settings and keeps the defaults", async () => {
+    const octokit = createOctokit(
+      "checks:\n  spelling: true\n  structure:\n    severity: fatal\n"
+    )
+
+    const fileResults = await runQualityChecks(job, createTestEnv(), octokit)
+
+    expect(fileResults.map(({ path }) => path)).toEqual([
+      ".articlecheck.yml",
+      "content/a.md"
+    ])
+    expect(fileResults[0].results[0]).toMatchObject({
+      passed: false,
+      severity: "warning",
+      errors: [
+        expect.objectContaining({ line: 2, field: "checks.spelling" }),
+        expect.objectContaining({ line: 4, field: "checks.structure.severity" })
+      ]
+    })
+    expect(fileResults[1].results[0]).toMatchObject({ severity: "error" })
+  })
+})
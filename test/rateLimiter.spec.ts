@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+
+import { UsageCommit, UsageReservation } from "@/types"
+import { RateLimitDecision, RateLimiter } from "@/durableObjects/rateLimiter"
+import { DEFAULT_RATE_LIMITS, getRateLimits } from "@/config/rateLimits"
+import { createDurableObjectState, createTestEnv } from "./helpers/env"
+
+const reservation: UsageReservation = {
+  repository: "owner/repo",
+  estimatedInputTokens: 3000,
+  maxOutputTokens: 2000,
+  estimatedCostUSD: 0.01,
+  budget: {},
+  limits: DEFAULT_RATE_LIMITS
+}
+
+async function post(limiter: RateLimiter, path: string, body: object) {
+  const response = await limiter.fetch(
+    new Request(`https://rate-limiter${path}`, {
+      method: "POST",
+      body: JSON.stringify(body)
+    })
+  )
+  return (await response.json()) as RateLimitDecision
+}
+
+function commitFor(reservationId: string): UsageCommit {
+  return {
+    repository: "owner/repo",
+    prNumber: 1,
+    contributor: "alice",
+    reservationId,
+    provider: "mock",
+    model: "mock",
+    usage: { inputTokens: 100, outputTokens: 50 },
+    costUSD: 0.001
+  }
+}
+
+describe("RateLimiter", () => {
+  let state: DurableObjectState
+  let limiter: RateLimiter
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2024-03-15T12:00:00Z"))
+    state = createDurableObjectState()
+    limiter = new RateLimiter(state)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("counts the tokens of calls still running against the minute", async () => {
+    // 3 × 3000 input tokens fit in 10000, a fourth does not
+    for (let i = 0; i < 3; i++) {
+      expect((await post(limiter, "/reserve", reservation)).allowed).toBe(true)
+    }
+    expect(await post(limiter, "/reserve", reservation)).toMatchObject({
+      allowed: false,
+      reason: "Rate limit exceeded: Too many input tokens per minute",
+      retryAfterMs: 60000
+    })
+  })
+
+  it("frees the reserved tokens when a call is released", async () => {
+    const limits = { ...DEFAULT_RATE_LIMITS, outputTokensPerMinute: 2000 }
+    const first = await post(limiter, "/reserve", { ...reservation, limits })
+
+    expect(
+      await post(limiter, "/reserve", { ...reservation, limits })
+    ).toMatchObject({
+      allowed: false,
+      reason: "Rate limit exceeded: Too many output tokens per minute"
+    })
+    await post(limiter, "/release", { reservationId: first.reservationId })
+    expect(
+      (await post(limiter, "/reserve", { ...reservation, limits })).allowed
+    ).toBe(true)
+  })
+
+  it("applies the limits sent with the reservation", async () => {
+    const limits = { ...DEFAULT_RATE_LIMITS, requestsPerMinute: 1 }
+    const small = { ...reservation, estimatedInputTokens: 10, limits }
+
+    expect((await post(limiter, "/reserve", small)).allowed).toBe(true)
+    expect((await post(limiter, "/reserve", small)).reason).toBe(
+      "Rate limit exceeded: Too many requests per minute"
+    )
+  })
+
+  it("prunes past usage periods and stale ledger entries", async () => {
+    const { reservationId } = await post(limiter, "/reserve", reservation)
+    await post(limiter, "/commit", commitFor(reservationId as string))
+    const alarm = await state.storage.getAlarm()
+    expect(alarm).toBe(Date.now() + 24 * 60 * 60 * 1000)
+
+    // A day later the day total is gone, the month and ledger remain
+    vi.setSystemTime(alarm as number)
+    await limiter.alarm()
+    expect([
+      ...(await state.storage.list({ prefix: "usage:" })).keys()
+    ]).toEqual(["usage:owner/repo:2024-03"])
+    expect((await state.storage.list({ prefix: "ledger:" })).size).toBe(2)
+
+    // Three months later nothing is left and the alarm stops
+    vi.setSystemTime(new Date("2024-07-01T12:00:00Z"))
+    await state.storage.deleteAlarm()
+    await limiter.alarm()
+    expect((await state.storage.list({ prefix: "usage:" })).size).toBe(0)
+    expect((await state.storage.list({ prefix: "ledger:" })).size).toBe(0)
+    expect(await state.storage.getAlarm()).toBeNull()
+  })
+})
+
+describe("getRateLimits", () => {
+  it("merges LLM_RATE_LIMITS over the defaults", () => {
+    expect(
+      getRateLimits(
+        createTestEnv({ LLM_RATE_LIMITS: '{"requestsPerMinute": 20}' })
+      )
+    ).toEqual({ ...DEFAULT_RATE_LIMITS, requestsPerMinute: 20 })
+    expect(
+      getRateLimits(createTestEnv({ LLM_RATE_LIMITS: "not json" }))
+    ).toEqual(DEFAULT_RATE_LIMITS)
+  })
+})
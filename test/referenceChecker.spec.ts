@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from "vitest"
+
+import { checkReferences, extractLinks } from "@/services/referenceChecker"
+
+const EVM_TX = `0x${"ab".repeat(32)}`
+const EVM_ADDRESS = `0x${"cd".repeat(20)}`
+
+function article(body: string): string {
+  return `---\ntitle: "Example"\n---\n\n## References\n\n${body}\n`
+}
+
+describe("extractLinks", () => {
+  it("classifies links by kind of source", () => {
+    const links = extractLinks(
+      article(
+        [
+          `- [Exploit tx](https://etherscan.io/tx/${EVM_TX})`,
+          "- [Post-mortem](https://blog.example.finance/post-mortem)",
+          "- [Analysis](https://slowmist.medium.com/analysis-123)",
+          "- [Coverage](https://www.coindesk.com/tech/2023/hack)",
+          "- [Thread](https://twitter.com/peckshield/status/1)",
+          "- [Docs](https://docs.example.finance)"
+        ].join("\n")
+      )
+    )
+
+    expect(links.map((link) => link.category)).toEqual([
+      "explorer",
+      "protocol",
+      "security",
+      "news",
+      "social",
+      "other"
+    ])
+    expect(links[0]).toMatchObject({
+      chain: "evm",
+      kind: "tx",
+      value: EVM_TX,
+      line: 7
+    })
+  })
+
+  it("reads the chain from explorer paths and fragments", () => {
+    const [bitcoin, tron] = extractLinks(
+      article(
+        [
+          "[a](https://www.blockchain.com/explorer/addresses/btc/1A4PXZE5j8v7UuapYckq6fSegmY5i8uUyq)",
+          "[b](https://tronscan.org/#/address/TNXoiAJ3dct8Fjg4M9fkLFh9S2v9TXc32G)"
+        ].join("\n")
+      )
+    )
+
+    expect(bitcoin).toMatchObject({ chain: "bitcoin", kind: "address" })
+    expect(tron).toMatchObject({
+      chain: "tron",
+      kind: "address",
+      value: "TNXoiAJ3dct8Fjg4M9fkLFh9S2v9TXc32G"
+    })
+  })
+
+  it("skips code and marks bare URLs", () => {
+    const links = extractLinks(
+      article(
+        [
+          "See https://rekt.news/example for details.",
+          "`https://ignored.example`",
+          "```bash",
+          "curl https://ignored.example",
+          "```"
+        ].join("\n")
+      )
+    )
+
+    expect(links).toHaveLength(1)
+    expect(links[0]).toMatchObject({
+      url: "https://rekt.news/example",
+      linked: false
+    })
+  })
+})
+
+describe("checkReferences", () => {
+  it("passes well-formed explorer links", async () => {
+    const result = await checkReferences(
+      article(
+        [
+          `[Tx](https://etherscan.io/tx/${EVM_TX})`,
+          `[Attacker](https://bscscan.com/address/${EVM_ADDRESS})`,
+          "[Signature](https://explorer.solana.com/tx/5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW)",
+          "[Wallet](https://mempool.space/address/bc1qnpc7u2ha7ct9c458rrqsawylz9e9j6jvkvzttt)"
+        ].join("\n")
+      )
+    )
+
+    expect(result.passed).toBe(true)
+    expect(result.details).toContain("4 explorer")
+  })
+
+  it("reports malformed hashes and addresses on their line", async () => {
+    const result = await checkReferences(
+      article(
+        [
+          `[Tx](https://etherscan.io/tx/${EVM_TX}7)`,
+          "[Attacker](https://etherscan.io/address/a09871aeadf4994ca12f5c0b6056bbd1d343c029)",
+          "[Wallet](https://tronscan.org/#/address/0x1234)"
+        ].join("\n")
+      )
+    )
+
+    expect(result.passed).toBe(false)
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        line: 7,
+        message: expect.stringContaining("not a valid EVM transaction hash")
+      }),
+      expect.objectContaining({
+        line: 8,
+        message: expect.stringContaining("not a valid EVM address")
+      }),
+      expect.objectContaining({
+        line: 9,
+        message: expect.stringContaining("not a valid Tron address")
+      })
+    ])
+  })
+
+  it("flags duplicate and bare URLs without failing", async () => {
+    const result = await checkReferences(
+      article(
+        [
+          "[Post-mortem](https://www.example.com/post-mortem)",
+          "[Same post](https://example.com/post-mortem/)",
+          "Source: https://example.com/other"
+        ].join("\n")
+      )
+    )
+
+    expect(result.passed).toBe(true)
+    expect(result.suggestions).toEqual([
+      expect.stringContaining("Line 8: Duplicate link, already used on line 7"),
+      expect.stringContaining("Line 9: Bare URL")
+    ])
+  })
+
+  it("checks that links resolve through the injected fetcher", async () => {
+    const fetcher = vi.fn(async (url: string) =>
+      url.includes("gone")
+        ? new Response(null, { status: 404 })
+        : url.includes("blocked")
+          ? new Response(null, { status: 403 })
+          : new Response(null, { status: 200 })
+    )
+
+    const result = await checkReferences(
+      article(
+        [
+          "[Live](https://example.com/live)",
+          "[Gone](https://example.com/gone)",
+          "[Blocked](https://example.com/blocked)"
+        ].join("\n")
+      ),
+      { fetcher }
+    )
+
+    expect(fetcher).toHaveBeenCalledTimes(3)
+    expect(fetcher).toHaveBeenCalledWith(
+      "https://example.com/live",
+      expect.objectContaining({ method: "HEAD" })
+    )
+    expect(result.passed).toBe(false)
+    expect(result.errors).toEqual([
+      {
+        message: "Link returned HTTP 404: https://example.com/gone",
+        line: 8
+      }
+    ])
+  })
+})
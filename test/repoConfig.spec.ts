@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest"
+
+import { parseRepoConfig, resolveSettings } from "@/services/repoConfig"
+import { getCheck } from "@/services/checkRegistry"
+import { CheckDefinition } from "@/types"
+import { matchesGlobs } from "@/utils/glob"
+
+describe("parseRepoConfig", () => {
+  it("reads check settings", () => {
+    const { config, errors } = parseRepoConfig(`# Wiki settings
+checks:
+  review: false
+  plagiarism:
+    severity: warning # only flag it
+    threshold: 35
+    globs:
+      - "content/research/**/*.md"
+      - "!**/_index.md"
+`)
+
+    expect(errors).toEqual([])
+    expect(config.checks).toEqual({
+      review: { enabled: false },
+      plagiarism: {
+        severity: "warning",
+        threshold: 35,
+        globs: ["content/research/**/*.md", "!**/_index.md"]
+      }
+    })
+  })
+
+  it("points at invalid settings", () => {
+    const { config, errors } = parseRepoConfig(`checks:
+  structure:
+    threshold: 2
+    enabled: yes
+  taxonomy: maybe
+verbose: true
+`)
+
+    expect(config.checks).toEqual({ structure: {}, taxonomy: {} })
+    expect(errors.map(({ line, field }) => [line, field])).toEqual([
+      [6, "verbose"],
+      [3, "checks.structure.threshold"],
+      [4, "checks.structure.enabled"],
+      [5, "checks.taxonomy"]
+    ])
+  })
+
+  it("reports YAML syntax errors with their line", () => {
+    expect(parseRepoConfig("checks:\n  review: false\n     oops\n")).toEqual({
+      config: { checks: {} },
+      errors: [{ message: "Unexpected indentation", line: 3 }]
+    })
+  })
+})
+
+describe("resolveSettings", () => {
+  it("falls back to the registry defaults", () => {
+    const plagiarism = getCheck("plagiarism") as CheckDefinition
+
+    expect(
+      resolveSettings(plagiarism, { checks: { plagiarism: { threshold: 50 } } })
+    ).toEqual({
+      enabled: true,
+      severity: "error",
+      globs: ["**/*.md"],
+      threshold: 50
+    })
+  })
+})
+
+describe("matchesGlobs", () => {
+  const incidents = [
+    "content/research/cyberattacks/incidents/**/*.md",
+    "!**/_index.md"
+  ]
+
+  it("matches paths against including and excluding globs", () => {
+    expect(
+      matchesGlobs(
+        "content/research/cyberattacks/incidents/2022-03-23-Ronin.md",
+        incidents
+      )
+    ).toBe(true)
+    expect(
+      matchesGlobs(
+        "content/research/cyberattacks/incidents/_index.md",
+        incidents
+      )
+    ).toBe(false)
+    expect(matchesGlobs("content/research/market-health/a.md", incidents)).toBe(
+      false
+    )
+    expect(matchesGlobs("README.md", ["**/*.md"])).toBe(true)
+    expect(matchesGlobs("docs/a.mdx", ["docs/*.{md,mdx}"])).toBe(true)
+  })
+})
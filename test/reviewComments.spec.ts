@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest"
+import { Octokit } from "@octokit/rest"
+
+import { FileCheckResults, PullRequestJob } from "@/types"
+import {
+  buildReviewComments,
+  publishReview,
+  REVIEW_COMMENT_MARKER
+} from "@/services/reviewComments"
+import { parseDiffRanges } from "@/utils/diff"
+
+const fileResults: FileCheckResults[] = [
+  {
+    path: "content/a.md",
+    diffRanges: [{ start: 1, end: 20 }],
+    results: [
+      {
+        name: "🧱 Structure",
+        severity: "error",
+        passed: false,
+        details: "2 problems",
+        errors: [
+          {
+            message: "Code block without a language",
+            line: 9,
+            suggestion: "```solidity"
+          },
+          { message: "Remove the title heading", line: 5, suggestion: "" },
+          // Outside the diff
+          { message: "Missing section", line: 30 },
+          { message: "No line" }
+        ]
+      },
+      {
+        name: "📝 Editorial Review",
+        severity: "warning",
+        passed: false,
+        details: "Needs work",
+        errors: [{ message: "Timeline: use UTC", line: 12, endLine: 14 }]
+      },
+      {
+        name: "🔗 References",
+        passed: true,
+        details: "All good",
+        errors: [{ message: "Ignored", line: 3 }]
+      }
+    ]
+  },
+  {
+    // No patch from GitHub
+    path: "content/b.md",
+    results: [
+      { passed: false, details: "Broken", errors: [{ message: "x", line: 1 }] }
+    ]
+  }
+]
+
+const job: PullRequestJob = {
+  repository: "owner/wiki",
+  prNumber: 7,
+  headSha: "abc"
+}
+
+function createOctokit(
+  existing: Array<{
+    path: string
+    line: number
+    body: string
+    user: { login: string }
+  }>
+) {
+  return {
+    paginate: vi.fn(async () => existing),
+    pulls: {
+      listReviewComments: vi.fn(),
+      createReview: vi.fn(async () => ({ data: { id: 1 } }))
+    }
+  } as unknown as Octokit
+}
+
+describe("parseDiffRanges", () => {
+  it("reads the new file's lines from hunk headers", () => {
+    const patch =
+      "@@ -1,3 +1,4 @@\n a\n+b\n c\n d\n@@ -10 +11 @@\n-e\n+f\n@@ -20,2 +21,0 @@\n-g\n-h"
+    expect(parseDiffRanges(patch)).toEqual([
+      { start: 1, end: 4 },
+      { start: 11, end: 11 }
+    ])
+  })
+})
+
+describe("buildReviewComments", () => {
+  it("pins failed findings on diff lines, with suggestions", () => {
+    expect(buildReviewComments(fileResults)).toEqual([
+      {
+        path: "content/a.md",
+        line: 9,
+        side: "RIGHT",
+        body: `❌ **🧱 Structure**: Code block without a language\n\n\`\`\`suggestion\n\`\`\`solidity\n\`\`\`\n\n${REVIEW_COMMENT_MARKER}`
+      },
+      {
+        path: "content/a.md",
+        line: 5,
+        side: "RIGHT",
+        body: `❌ **🧱 Structure**: Remove the title heading\n\n\`\`\`suggestion\n\`\`\`\n\n${REVIEW_COMMENT_MARKER}`
+      },
+      {
+        path: "content/a.md",
+        start_line: 12,
+        start_side: "RIGHT",
+        line: 14,
+        side: "RIGHT",
+        body: `⚠️ **📝 Editorial Review**: Timeline: use UTC\n\n${REVIEW_COMMENT_MARKER}`
+      }
+    ])
+  })
+})
+
+describe("publishReview", () => {
+  it("posts one review without repeating earlier comments", async () => {
+    const [first, second] = buildReviewComments(fileResults)
+    const octokit = createOctokit([
+      { ...first, user: { login: "checker" } },
+      // Not the worker's, even with the marker
+      { path: "content/a.md", line: 5, body: "Nice", user: { login: "bob" } },
+      { ...second, user: { login: "bob" } }
+    ])
+
+    expect(await publishReview(octokit, job, "checker", fileResults)).toBe(2)
+    expect(octokit.pulls.createReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: "owner",
+        repo: "wiki",
+        pull_number: 7,
+        commit_id: "abc",
+        event: "COMMENT",
+        comments: [
+          expect.objectContaining({ line: 5 }),
+          expect.objectContaining({ line: 14 })
+        ]
+      })
+    )
+  })
+
+  it("skips the review when there is nothing new", async () => {
+    const octokit = createOctokit(
+      buildReviewComments(fileResults).map(({ path, line, body }) => ({
+        path,
+        line,
+        body,
+        user: { login: "checker" }
+      }))
+    )
+
+    expect(await publishReview(octokit, job, "checker", fileResults)).toBe(0)
+    expect(octokit.pulls.createReview).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest"
+
+import { parseReviewResponse, REVIEW_CRITERIA } from "@/schemas/reviewSchema"
+
+function review(overrides: Record<string, unknown> = {}) {
+  return {
+    verdict: "FAIL",
+    summary: "Missing technical analysis",
+    criteria: REVIEW_CRITERIA.map((criterion) => ({
+      id: criterion.id,
+      passed: criterion.id !== "technical-analysis",
+      evidence: [],
+      feedback: "..."
+    })),
+    missing: ["Vulnerable code"],
+    suggestions: ["Add the vulnerable function"],
+    ...overrides
+  }
+}
+
+describe("parseReviewResponse", () => {
+  it("accepts a well-formed review and names the criteria", () => {
+    const { verdict, errors } = parseReviewResponse(JSON.stringify(review()))
+
+    expect(errors).toEqual([])
+    expect(verdict?.verdict).toBe("FAIL")
+    expect(verdict?.criteria.map((criterion) => criterion.name)).toEqual(
+      REVIEW_CRITERIA.map((criterion) => criterion.name)
+    )
+  })
+
+  it("extracts JSON wrapped in a code fence", () => {
+    const text = `Here is the review:\n\`\`\`json\n${JSON.stringify(review())}\n\`\`\``
+
+    expect(parseReviewResponse(text).verdict).not.toBeNull()
+  })
+
+  it("does not treat prose mentioning pass as a verdict", () => {
+    const { verdict, errors } = parseReviewResponse(
+      "This article does not pass. Also mentions passwords and bypass."
+    )
+
+    expect(verdict).toBeNull()
+    expect(errors[0]).toContain("not valid JSON")
+  })
+
+  it("reports schema violations for repair", () => {
+    const { verdict, errors } = parseReviewResponse(
+      JSON.stringify(
+        review({ verdict: "pass", criteria: [{ id: "impact", passed: "yes" }] })
+      )
+    )
+
+    expect(verdict).toBeNull()
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        'verdict must be "PASS" or "FAIL"',
+        "criteria[0].passed must be a boolean",
+        'criteria is missing an entry for "references"'
+      ])
+    )
+  })
+})
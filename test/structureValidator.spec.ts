@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest"
+import { readFileSync } from "fs"
+
+import { validateArticleStructure } from "@/services/structureValidator"
+import { getSchemaForPath, INCIDENT_SCHEMA } from "@/schemas/articleSchemas"
+
+const INCIDENT_PATH =
+  "content/research/cyberattacks/incidents/2011-10-05-Bitcoin7.md"
+
+describe("Article schemas", () => {
+  it("selects the schema by content path", () => {
+    expect(getSchemaForPath(INCIDENT_PATH).id).toBe("incident")
+    expect(
+      getSchemaForPath("content/research/cyberattacks/wiki/flashloan.md").id
+    ).toBe("wiki")
+    expect(
+      getSchemaForPath("content/research/market-health/posts/x/index.md").id
+    ).toBe("market-health")
+    expect(getSchemaForPath("README.md").id).toBe("generic")
+  })
+})
+
+describe("validateArticleStructure", () => {
+  it("passes an existing incident article", () => {
+    const content = readFileSync(INCIDENT_PATH, "utf8")
+    const result = validateArticleStructure(content, INCIDENT_SCHEMA)
+
+    expect(result.errors).toBeUndefined()
+    expect(result.passed).toBe(true)
+  })
+
+  it("reports front matter and section errors with line numbers", () => {
+    const content = [
+      "---",
+      "date: 2024-13-01",
+      "target-entities: Example",
+      "entity-types:",
+      "  - Exchange",
+      "attack-types: [Wallet Hack]",
+      "title: Example Hacked",
+      "loss: lots",
+      "---",
+      "",
+      "## Summary",
+      "",
+      "### Losses",
+      "",
+      "## Timeline",
+      "",
+      "```",
+      "code",
+      "```"
+    ].join("\n")
+
+    const result = validateArticleStructure(content, INCIDENT_SCHEMA)
+
+    expect(result.passed).toBe(false)
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: "date", line: 2 }),
+      expect.objectContaining({ field: "loss", line: 8 }),
+      expect.objectContaining({ section: "Losses", line: 13 }),
+      expect.objectContaining({ section: "Attackers", line: 15 }),
+      expect.objectContaining({ line: 17 })
+    ])
+  })
+
+  it("suggests fixes for mechanical problems", () => {
+    const content = [
+      "---",
+      "title: Example",
+      "---",
+      "",
+      "# Example",
+      "",
+      "### Summary",
+      "",
+      "```",
+      "function withdraw() external {",
+      "```"
+    ].join("\n")
+
+    const result = validateArticleStructure(content, INCIDENT_SCHEMA)
+    const suggestions = Object.fromEntries(
+      (result.errors ?? [])
+        .filter((error) => error.suggestion !== undefined)
+        .map((error) => [error.line, error.suggestion])
+    )
+
+    expect(suggestions).toEqual({
+      // Deletes the level-1 heading
+      5: "",
+      7: "## Summary",
+      9: "```solidity",
+      // Missing sections are appended after the last line
+      11: "```\n\n## Attackers\n\n## Losses\n\n## Timeline"
+    })
+  })
+
+  it("reports missing front matter", () => {
+    const result = validateArticleStructure("## Summary\n", INCIDENT_SCHEMA)
+
+    expect(result.passed).toBe(false)
+    expect(result.errors?.[0]).toEqual(expect.objectContaining({ line: 1 }))
+  })
+})
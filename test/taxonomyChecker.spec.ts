@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest"
+
+import {
+  checkTaxonomy,
+  findTerm,
+  suggestTags
+} from "@/services/taxonomyChecker"
+
+function incident(
+  frontMatter: string,
+  body = "An exchange was hacked."
+): string {
+  return `---\ndate: 2023-01-01\n${frontMatter}\ntitle: "Example"\n---\n\n## Summary\n\n${body}\n`
+}
+
+describe("findTerm", () => {
+  it("resolves aliases to the canonical term", () => {
+    expect(findTerm("attack-types", "Flash Loan")?.value).toBe(
+      "Flash Loan Attack"
+    )
+    expect(findTerm("attack-types", "private key compromise")?.value).toBe(
+      "Private Key Leak"
+    )
+    expect(findTerm("attack-types", "Lazarus Group")).toBeUndefined()
+  })
+})
+
+describe("checkTaxonomy", () => {
+  it("passes canonical values", () => {
+    const result = checkTaxonomy(
+      incident(
+        "entity-types:\n  - DeFi\n  - Bridge\nattack-types:\n  - Smart Contract Exploit"
+      )
+    )
+
+    expect(result).toEqual({
+      passed: true,
+      details:
+        "Checked 1 attack-types and 2 entity-types value(s) against the taxonomy",
+      suggestions: undefined,
+      errors: undefined
+    })
+  })
+
+  it("proposes canonical replacements on the item's line", () => {
+    const result = checkTaxonomy(
+      incident(
+        "attack-types:\n  - Flash Loan\n  - Lazarus Group\n  - Exchange\n  - Time Travel"
+      )
+    )
+
+    expect(result.passed).toBe(false)
+    expect(
+      result.errors?.map(({ line, message }) => ({ line, message }))
+    ).toEqual([
+      {
+        line: 4,
+        message:
+          "`Flash Loan` is not the canonical `attack-types` value, use `Flash Loan Attack`"
+      },
+      {
+        line: 5,
+        message: expect.stringContaining("names an attacker")
+      },
+      {
+        line: 6,
+        message:
+          "`Exchange` is an `entity-types` value, not an `attack-types` value"
+      },
+      {
+        line: 7,
+        message: expect.stringContaining(
+          "Unknown `attack-types` value `Time Travel`"
+        )
+      }
+    ])
+    expect(result.errors?.map(({ suggestion }) => suggestion)).toEqual([
+      "  - Flash Loan Attack",
+      undefined,
+      undefined,
+      undefined
+    ])
+  })
+
+  it("notes duplicates and inconsistent indentation without failing", () => {
+    const result = checkTaxonomy(
+      incident(
+        "attack-types:\n    - Smart Contract Exploit\n  - Smart Contract Exploit"
+      )
+    )
+
+    expect(result.passed).toBe(true)
+    expect(result.suggestions).toEqual([
+      "Line 4: Indent `attack-types` items with two spaces (`  - Smart Contract Exploit`)",
+      "Line 5: `Smart Contract Exploit` repeats `Smart Contract Exploit` from line 4"
+    ])
+  })
+})
+
+describe("suggestTags", () => {
+  it("suggests untagged attack types mentioned in the body", () => {
+    const content = incident(
+      "attack-types: Smart Contract Exploit",
+      "The attacker took a flash loan and used reentrancy.\n\n```solidity\n// phishing\n```"
+    )
+
+    expect(suggestTags(content).map(({ term }) => term.value)).toEqual([
+      "Flash Loan Attack",
+      "Reentrancy Attack"
+    ])
+    expect(checkTaxonomy(content).suggestions).toContainEqual(
+      expect.stringContaining(
+        "see content/research/cyberattacks/wiki/flashloan.md"
+      )
+    )
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest"
+
+import { ServiceBinding } from "@/types"
+import { checkPlagiarism } from "@/services/plagiarismChecker"
+import { checkSimilarity } from "@/services/similarityChecker"
+
+function binding(body: unknown, status = 200) {
+  return {
+    fetch: vi.fn(async () => Response.json(body, { status }))
+  } satisfies ServiceBinding
+}
+
+const ARTICLE = `---
+title: "Example"
+---
+
+The attacker drained the bridge.
+
+Funds were moved to Tornado Cash.
+`
+
+describe("checkPlagiarism", () => {
+  it("fails above the threshold and points at the copied lines", async () => {
+    const service = binding({
+      percent: 45.5,
+      partial: false,
+      sentences: { total: 2, checked: 2 },
+      sources: [{ title: "News", url: "https://news.example", percent: 45.5 }],
+      matches: [
+        {
+          sentence: "Funds were moved to Tornado Cash.",
+          url: "https://news.example",
+          start: ARTICLE.indexOf("Funds")
+        }
+      ]
+    })
+
+    const result = await checkPlagiarism(ARTICLE, service)
+
+    expect(JSON.parse(service.fetch.mock.calls[0][1].body)).toEqual({
+      text: ARTICLE,
+      format: "json"
+    })
+    expect(result.passed).toBe(false)
+    expect(result.details).toContain("45.50%")
+    expect(result.errors).toEqual([expect.objectContaining({ line: 7 })])
+    expect(result.suggestions?.[0]).toContain("[News](https://news.example)")
+  })
+
+  it("passes below the threshold and mentions partial results", async () => {
+    const result = await checkPlagiarism(
+      ARTICLE,
+      binding({
+        percent: 0,
+        partial: true,
+        sentences: { total: 2, checked: 1 },
+        sources: [],
+        matches: []
+      })
+    )
+
+    expect(result.passed).toBe(true)
+    expect(result.details).toContain("1 of 2 sentences checked")
+  })
+
+  it("throws on service errors", async () => {
+    await expect(
+      checkPlagiarism(ARTICLE, binding("API key not found", 400))
+    ).rejects.toThrow("HTTP 400")
+  })
+})
+
+describe("checkSimilarity", () => {
+  it("queries without front matter and skips the article itself", async () => {
+    const service = binding({
+      version: 2,
+      similarity_score: 1,
+      matches: [
+        { path: "content/a.md", score: 1 },
+        { path: "content/b.md", title: "Bridge Hack", score: 0.95 },
+        { path: "content/c.md", title: "Other Hack", score: 0.7 }
+      ]
+    })
+
+    const result = await checkSimilarity(ARTICLE, service, {
+      apiKey: "key",
+      repository: "owner/wiki",
+      path: "content/a.md"
+    })
+
+    const [, init] = service.fetch.mock.calls[0]
+    expect(init.headers).toMatchObject({ "X-API-Key": "key" })
+    expect(JSON.parse(init.body)).toMatchObject({
+      version: 2,
+      namespace: "wiki",
+      text: expect.not.stringContaining("title:")
+    })
+    expect(result.passed).toBe(false)
+    expect(result.details).toBe(
+      "Nearly identical to [Bridge Hack](https://github.com/owner/wiki/blob/HEAD/content/b.md) (0.95)"
+    )
+  })
+
+  it("lists the closest articles when none is too similar", async () => {
+    const result = await checkSimilarity(
+      ARTICLE,
+      binding({ matches: [{ path: "content/c.md", score: 0.7 }] })
+    )
+
+    expect(result).toEqual({
+      passed: true,
+      details:
+        "Most similar published articles: [content/c.md](content/c.md) (0.70)"
+    })
+  })
+})
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { createHmac } from "node:crypto"
+
+import worker from "@/index"
+import { Env } from "@/types"
+import { MAX_BODY_BYTES } from "@/services/webhookRequest"
+import { STICKY_COMMENT_MARKER } from "@/services/stickyComment"
+import { verifyGitHubWebhook } from "@/utils/webhookVerification"
+import { createTestEnv } from "./helpers/env"
+import ping from "./fixtures/webhooks/ping.json"
+import installation from "./fixtures/webhooks/installation.json"
+import issueComment from "./fixtures/webhooks/issue_comment.json"
+import pullRequest from "./fixtures/webhooks/pull_request.json"
+
+const octokit = {
+  pulls: {
+    get: vi.fn(async () => ({ data: { head: { sha: "head-sha" } } }))
+  },
+  checks: {
+    create: vi.fn(async () => ({ data: { id: 41 } })),
+    listForRef: vi.fn(async () => ({
+      data: { check_runs: [] as { id: number }[] }
+    }))
+  },
+  users: {
+    getAuthenticated: vi.fn(async () => ({
+      data: { login: "article-checker" }
+    }))
+  },
+  repos: {
+    // The commenting maintainer may write; the contributor is no collaborator
+    getCollaboratorPermissionLevel: vi.fn(
+      async ({ username }: { username: string }) => {
+        if (username !== "maintainer") {
+          throw Object.assign(new Error("Not Found"), { status: 404 })
+        }
+        return { data: { permission: "write", role_name: "write" } }
+      }
+    )
+  }
+}
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn(() => octokit)
+}))
+
+const SECRET = "secret"
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+}
+
+function webhookRequest(
+  event: string,
+  payload: unknown,
+  {
+    deliveryId = "delivery-1",
+    secret = SECRET,
+    headers = {}
+  }: {
+    deliveryId?: string
+    secret?: string
+    headers?: Record<string, string>
+  } = {}
+): Request {
+  const body = typeof payload === "string" ? payload : JSON.stringify(payload)
+  return new Request("https://worker.example/", {
+    method: "POST",
+    body,
+    headers: {
+      "content-type": "application/json",
+      "x-github-event": event,
+      "x-github-delivery": deliveryId,
+      "x-hub-signature-256": sign(body, secret),
+      ...headers
+    }
+  })
+}
+
+describe("verifyGitHubWebhook", () => {
+  it("accepts any of the configured secrets", async () => {
+    const body = JSON.stringify(ping)
+    expect(await verifyGitHubWebhook(body, sign(body), [SECRET])).toBe(true)
+    expect(
+      await verifyGitHubWebhook(body, sign(body, "old"), [SECRET, "old"])
+    ).toBe(true)
+    expect(await verifyGitHubWebhook(body, sign(body, "old"), [SECRET])).toBe(
+      false
+    )
+  })
+
+  it("rejects malformed signatures", async () => {
+    const body = JSON.stringify(ping)
+    expect(await verifyGitHubWebhook(body, "sha1=abc", [SECRET])).toBe(false)
+    expect(
+      await verifyGitHubWebhook(body, sign(body).slice(0, -2), [SECRET])
+    ).toBe(false)
+  })
+})
+
+describe("webhook handler", () => {
+  let env: Env
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    env = createTestEnv({ WEBHOOK_SECRET_PREVIOUS: "previous" })
+  })
+
+  it("answers ping and unhandled events with a 2xx", async () => {
+    const pong = await worker.fetch(webhookRequest("ping", ping), env)
+    expect(pong.status).toBe(200)
+
+    const ignored = await worker.fetch(
+      webhookRequest("installation", installation, { deliveryId: "2" }),
+      env
+    )
+    expect(ignored.status).toBe(200)
+    expect(await ignored.text()).toBe("Ignored installation event")
+  })
+
+  it("queues a check once per delivery", async () => {
+    const first = await worker.fetch(
+      webhookRequest("issue_comment", issueComment),
+      env
+    )
+    expect(first.status).toBe(202)
+
+    const redelivery = await worker.fetch(
+      webhookRequest("issue_comment", issueComment),
+      env
+    )
+    expect(redelivery.status).toBe(200)
+    expect(await redelivery.text()).toBe("Duplicate delivery")
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledTimes(1)
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        repository: "1712n/dn-institute",
+        prNumber: 17
+      })
+    )
+  })
+
+  it("queues a check once when copies of a delivery arrive together", async () => {
+    const responses = await Promise.all(
+      [1, 2, 3].map(() =>
+        worker.fetch(webhookRequest("issue_comment", issueComment), env)
+      )
+    )
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 200, 202
+    ])
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledTimes(1)
+  })
+
+  it("leaves a queued check run when the author may not start checks", async () => {
+    const response = await worker.fetch(
+      webhookRequest("pull_request", pullRequest),
+      env
+    )
+
+    expect(response.status).toBe(200)
+    expect(env.CHECK_QUEUE.send).not.toHaveBeenCalled()
+    expect(octokit.checks.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        head_sha: "head-sha",
+        status: "queued",
+        output: expect.objectContaining({ title: "Waiting for a reviewer" })
+      })
+    )
+  })
+
+  it("reports a reviewer's run on the head commit's waiting check run", async () => {
+    octokit.checks.listForRef.mockResolvedValueOnce({
+      data: { check_runs: [{ id: 41 }] }
+    })
+
+    const response = await worker.fetch(
+      webhookRequest("issue_comment", issueComment),
+      env
+    )
+
+    expect(response.status).toBe(202)
+    expect(octokit.checks.create).not.toHaveBeenCalled()
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trigger: "comment",
+        headSha: "head-sha",
+        checkRunId: 41
+      })
+    )
+  })
+
+  it("keeps runs limited to some checks off the check run", async () => {
+    const response = await worker.fetch(
+      webhookRequest("issue_comment", {
+        ...issueComment,
+        comment: {
+          ...issueComment.comment,
+          body: "/articlecheck --only structure"
+        }
+      }),
+      env
+    )
+
+    expect(response.status).toBe(202)
+    expect(octokit.checks.listForRef).not.toHaveBeenCalled()
+    expect(octokit.checks.create).not.toHaveBeenCalled()
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledWith(
+      expect.objectContaining({ only: ["structure"] })
+    )
+    expect(env.CHECK_QUEUE.send).not.toHaveBeenCalledWith(
+      expect.objectContaining({ checkRunId: expect.anything() })
+    )
+  })
+
+  it("ignores its own comments but not replies quoting them", async () => {
+    const sticky = `${STICKY_COMMENT_MARKER}\n/articlecheck status`
+    const own = await worker.fetch(
+      webhookRequest("issue_comment", {
+        ...issueComment,
+        comment: {
+          ...issueComment.comment,
+          body: sticky,
+          user: { login: "article-checker" }
+        }
+      }),
+      env
+    )
+    expect(await own.text()).toBe("Ignored issue_comment event")
+
+    const reply = await worker.fetch(
+      webhookRequest(
+        "issue_comment",
+        {
+          ...issueComment,
+          comment: {
+            ...issueComment.comment,
+            body: `> ${sticky.replace(/\n/g, "\n> ")}\n\n/articlecheck`
+          }
+        },
+        { deliveryId: "delivery-2" }
+      ),
+      env
+    )
+    expect(reply.status).toBe(202)
+    expect(env.CHECK_QUEUE.send).toHaveBeenCalledTimes(1)
+  })
+
+  it("accepts the previous secret while rotating", async () => {
+    const response = await worker.fetch(
+      webhookRequest("ping", ping, { secret: "previous" }),
+      env
+    )
+    expect(response.status).toBe(200)
+  })
+
+  it("rejects bad signatures", async () => {
+    const response = await worker.fetch(
+      webhookRequest("ping", ping, { secret: "wrong" }),
+      env
+    )
+    expect(response.status).toBe(401)
+  })
+
+  it("rejects non-JSON and oversized bodies", async () => {
+    const form = await worker.fetch(
+      webhookRequest("ping", "payload=%7B%7D", {
+        headers: { "content-type": "application/x-www-form-urlencoded" }
+      }),
+      env
+    )
+    expect(form.status).toBe(415)
+
+    const invalid = await worker.fetch(webhookRequest("ping", "{not json"), env)
+    expect(invalid.status).toBe(400)
+
+    const oversized = await worker.fetch(
+      webhookRequest("ping", { padding: "x".repeat(MAX_BODY_BYTES) }),
+      env
+    )
+    expect(oversized.status).toBe(413)
+  })
+
+  it("requires a delivery id", async () => {
+    const request = webhookRequest("ping", ping)
+    request.headers.delete("x-github-delivery")
+    expect((await worker.fetch(request, env)).status).toBe(400)
+  })
+})
@@ -0,0 +1,154 @@
+import { CorpusDocument, Env, SearchBackend, SearchResult } from "./types"
+
+export class SearchError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message)
+    this.name = "SearchError"
+  }
+}
+
+// The daily quota is spent; retrying before it resets only fails again
+export class QuotaExceededError extends SearchError {
+  constructor(message: string) {
+    super(message, false)
+    this.name = "QuotaExceededError"
+  }
+}
+
+// Google and Bing error reasons
+const QUOTA_REASONS = ["dailyLimitExceeded", "quotaExceeded", "OutOfQuota"]
+
+async function checkResponse(response: Response, backend: string) {
+  if (response.ok) {
+    return
+  }
+  const body = await response.text()
+  const message = `${backend} search failed with HTTP ${response.status}: ${body.slice(0, 200)}`
+
+  // A spent daily quota comes back as 403 or as 429 "Queries per day"; other
+  // 429s are the per-minute limit, which is worth retrying
+  if (
+    (response.status === 403 &&
+      QUOTA_REASONS.some((reason) => body.includes(reason))) ||
+    (response.status === 429 && /per day/i.test(body))
+  ) {
+    throw new QuotaExceededError(message)
+  }
+  throw new SearchError(
+    message,
+    response.status === 429 || response.status >= 500
+  )
+}
+
+export function googleBackend(apiKey: string, cx: string): SearchBackend {
+  return {
+    name: "google",
+    async search(sentence) {
+      const query = encodeURIComponent(sentence)
+      const url = `https://www.googleapis.com/customsearch/v1?exactTerms=${query}&key=${apiKey}&cx=${cx}&num=1`
+      const response = await fetch(url)
+      await checkResponse(response, "Google")
+
+      const data: { items?: Array<SearchResult> } = await response.json()
+      const first = data.items?.[0]
+      return first ? { title: first.title, link: first.link } : null
+    }
+  }
+}
+
+export function bingBackend(apiKey: string): SearchBackend {
+  return {
+    name: "bing",
+    async search(sentence) {
+      const query = encodeURIComponent(`"${sentence}"`)
+      const response = await fetch(
+        `https://api.bing.microsoft.com/v7.0/search?q=${query}&count=1&responseFilter=Webpages`,
+        { headers: { "Ocp-Apim-Subscription-Key": apiKey } }
+      )
+      await checkResponse(response, "Bing")
+
+      const data: {
+        webPages?: { value: Array<{ name: string; url: string }> }
+      } = await response.json()
+      const first = data.webPages?.value[0]
+      return first ? { title: first.name, link: first.url } : null
+    }
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+// Exact-sentence lookup in a known set of documents, e.g. the wiki itself
+export function corpusBackend(documents: CorpusDocument[]): SearchBackend {
+  const normalized = documents.map((document) => ({
+    document,
+    text: normalize(document.text)
+  }))
+  return {
+    name: "corpus",
+    async search(sentence) {
+      const needle = normalize(sentence)
+      const found = normalized.find(({ text }) => text.includes(needle))
+      return found
+        ? {
+            title: found.document.title,
+            link: found.document.link,
+            text: found.document.text
+          }
+        : null
+    }
+  }
+}
+
+// Key of the JSON array of CorpusDocument in the SEARCH_CORPUS namespace
+export const CORPUS_KEY = "documents"
+
+// corpusBackend over documents kept in KV, e.g. the published wiki articles.
+// They are read on the first search, so building the backend stays
+// synchronous.
+export function kvCorpusBackend(kv: KVNamespace): SearchBackend {
+  let corpus: Promise<SearchBackend> | null = null
+  return {
+    name: "corpus",
+    async search(sentence) {
+      corpus ??= kv
+        .get<CorpusDocument[]>(CORPUS_KEY, "json")
+        .then((documents) => {
+          if (!documents) {
+            throw new SearchError(`No "${CORPUS_KEY}" in SEARCH_CORPUS`, false)
+          }
+          return corpusBackend(documents)
+        })
+      return (await corpus).search(sentence)
+    }
+  }
+}
+
+// Returns the configured backend, or an error message
+export function createBackend(env: Env): SearchBackend | string {
+  switch (env.SEARCH_BACKEND ?? "google") {
+    case "google":
+      if (!env.GOOGLE_API_KEY) {
+        return "API key not found"
+      }
+      if (!env.GOOGLE_SEARCH_ENGINE_CX) {
+        return "Search engine not specified"
+      }
+      return googleBackend(env.GOOGLE_API_KEY, env.GOOGLE_SEARCH_ENGINE_CX)
+    case "bing":
+      return env.BING_API_KEY
+        ? bingBackend(env.BING_API_KEY)
+        : "Bing API key not found"
+    case "corpus":
+      return env.SEARCH_CORPUS
+        ? kvCorpusBackend(env.SEARCH_CORPUS)
+        : "SEARCH_CORPUS namespace not bound"
+    default:
+      return `Unknown search backend ${env.SEARCH_BACKEND}`
+  }
+}
@@ -0,0 +1,116 @@
+// Verbs that attribute a quotation to someone other than the author
+const REPORTING_VERBS =
+  "said|says|wrote|writes|stated|states|tweeted|posted|announced|explained|added|noted|warned|claimed|confirmed|told|according to"
+const REPORTED_BEFORE = new RegExp(
+  `(?:\\b(?:${REPORTING_VERBS})\\b[^"“]{0,40}|:\\s*)$`,
+  "i"
+)
+const REPORTED_AFTER = new RegExp(
+  `^[\\s,]*(?:[\\p{L}.'’]+\\s+){0,3}?(?:${REPORTING_VERBS})\\b`,
+  "iu"
+)
+
+// Quoted terms, names and the author's own dialogue are the author's prose;
+// only quotations attributed to someone else are dropped
+function isQuotation(line: string, offset: number, length: number): boolean {
+  const before =
+    line
+      .slice(0, offset)
+      .split(/[.!?]\s+/)
+      .pop() ?? ""
+  return (
+    REPORTED_BEFORE.test(before) ||
+    REPORTED_AFTER.test(line.slice(offset + length))
+  )
+}
+
+// Only the author's own prose is checked: front matter, code, link and
+// image targets, HTML, block quotes and quotations are dropped
+export function extractProse(markdown: string): string {
+  let lines = markdown.replace(/\r\n/g, "\n").split("\n")
+
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex(
+      (line, index) => index > 0 && line.trim() === "---"
+    )
+    lines = end === -1 ? lines : lines.slice(end + 1)
+  }
+
+  let inFence = false
+  const prose = lines.map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      return ""
+    }
+    if (
+      inFence ||
+      /^\s*>/.test(line) ||
+      /^( {4}|\t)/.test(line) ||
+      /^\s*\[[^\]]+\]:\s*\S+/.test(line) ||
+      /^\s*\|?\s*:?-{3,}/.test(line)
+    ) {
+      return ""
+    }
+
+    return line
+      .replace(/^\s*#{1,6}\s+.*$/, "")
+      .replace(/`[^`]*`/g, " ")
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+      .replace(/<https?:\/\/[^>]+>|https?:\/\/\S+/g, " ")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/"[^"\n]+"|“[^”\n]+”/g, (quote, offset: number, text) =>
+        isQuotation(text, offset, quote.length) ? " " : quote
+      )
+      .replace(/^\s*(?:[-*+]|\d+\.)\s+/, "")
+      .replace(/[*_|]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  })
+
+  // One line per paragraph or list item
+  return prose.filter(Boolean).join("\n")
+}
+
+// Lines are split separately so list items without a full stop do not run
+// into the next line
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) =>
+      (
+        line.match(
+          /(?=[^])(?:\P{Sentence_Terminal}|\p{Sentence_Terminal}(?!['"`\p{Close_Punctuation}\p{Final_Punctuation}\s]))*(?:\p{Sentence_Terminal}+['"`\p{Close_Punctuation}\p{Final_Punctuation}]*|$)/guy
+        ) ?? []
+      )
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => sentence.length > 1)
+    )
+}
+
+// Markup, link targets and HTML that extractProse removed between two words
+const STRIPPED_GAP = String.raw`(?:[^\p{L}\p{N}]|\]\([^)]*\)|<[^>]*>)+`
+
+// Finds an extracted sentence in the text it came from, starting at `from`
+export function locateSentence(
+  text: string,
+  sentence: string,
+  from = 0
+): { start: number; end: number } | null {
+  const exact = text.indexOf(sentence, from)
+  if (exact !== -1) {
+    return { start: exact, end: exact + sentence.length }
+  }
+
+  const tokens = sentence.match(/[\p{L}\p{N}]+/gu)
+  if (!tokens) {
+    return null
+  }
+  const pattern = new RegExp(tokens.join(STRIPPED_GAP), "giu")
+  pattern.lastIndex = from
+  const match = pattern.exec(text)
+  return match
+    ? { start: match.index, end: match.index + match[0].length }
+    : null
+}
@@ -0,0 +1,114 @@
+import {
+  OutputFormat,
+  PlagiarismReport,
+  PlagiarismResponse,
+  SentenceMatch,
+  SearchSummary,
+  SourceSummary
+} from "./types"
+import { locateSentence } from "./markdown"
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "markdown"]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export function toResponse(
+  text: string,
+  report: PlagiarismReport,
+  summary: SearchSummary,
+  total: number
+): PlagiarismResponse {
+  // Results are in article order, so each sentence is looked for after the
+  // previous one
+  let from = 0
+  const matches = summary.results.map(({ sentence, match }, index) => {
+    const sentenceMatch: SentenceMatch = {
+      sentence,
+      title: match.title ?? null,
+      url: match.link ?? null,
+      source: report.sources.findIndex((source) =>
+        source.results.includes(index)
+      )
+    }
+    const position = locateSentence(text, sentence, from)
+    if (position) {
+      sentenceMatch.start = position.start
+      sentenceMatch.end = position.end
+      from = position.end
+    }
+    const sourcePosition = match.text
+      ? locateSentence(match.text, sentence)
+      : null
+    if (sourcePosition) {
+      sentenceMatch.sourceStart = sourcePosition.start
+      sentenceMatch.sourceEnd = sourcePosition.end
+    }
+    return sentenceMatch
+  })
+
+  return {
+    percent: round(report.percent * 100),
+    partial: summary.checked < total,
+    quotaExhausted: summary.quotaExhausted,
+    sentences: {
+      total,
+      checked: summary.checked,
+      skipped: summary.skipped,
+      failed: summary.failed
+    },
+    sources: report.sources.map((source) => ({
+      title: source.title ?? null,
+      url: source.link ?? null,
+      percent: round(source.containment * 100),
+      ...(source.jaccard !== undefined
+        ? { jaccard: round(source.jaccard) }
+        : {}),
+      sentences: source.sentences.length
+    })),
+    matches
+  }
+}
+
+function sourceLink({ title, url }: SourceSummary): string {
+  if (url) {
+    return `[${title ?? url}](${url})`
+  }
+  return title ?? "Unknown source"
+}
+
+export function formatMarkdown(response: PlagiarismResponse): string {
+  let formattedResponse = "## Plagiarism Check Results:\n\n"
+  formattedResponse += `### ${response.percent.toFixed(2)}% plagiarism detected\n\n`
+
+  const { total, checked, skipped, failed } = response.sentences
+  if (response.partial) {
+    formattedResponse += `> ⚠️ Partial result: checked ${checked} of ${total} sentences`
+    if (response.quotaExhausted) {
+      formattedResponse += `, the search quota ran out (${skipped} skipped)`
+    }
+    if (failed > 0) {
+      formattedResponse += `, ${failed} searches failed`
+    }
+    formattedResponse += ".\n\n"
+  }
+
+  if (response.sources.length === 0) {
+    return formattedResponse + "### No plagiarism detected."
+  }
+
+  response.sources.forEach((source, index) => {
+    formattedResponse += `#### ${sourceLink(source)}: ${source.percent.toFixed(2)}% of the article`
+    if (source.jaccard !== undefined) {
+      formattedResponse += ` (Jaccard ${source.jaccard.toFixed(2)})`
+    }
+    formattedResponse += "\n\n"
+    response.matches
+      .filter((match) => match.source === index)
+      .forEach((match) => {
+        formattedResponse += `- ${match.sentence}\n`
+      })
+    formattedResponse += "\n"
+  })
+
+  return formattedResponse
+}
@@ -0,0 +1,51 @@
+import { PlagiarismReport, PlagiarismResult, SourceOverlap } from "./types"
+import { containment, jaccard, shingles } from "./shingles"
+
+// Groups matched sentences by source and scores every source by the share
+// of the article's shingles it contains
+export function buildReport(
+  articleText: string,
+  results: PlagiarismResult[]
+): PlagiarismReport {
+  const articleShingles = shingles(articleText)
+  const groups = new Map<string, number[]>()
+  results.forEach((result, index) => {
+    // Results without a link or title cannot be told apart, so each one is
+    // its own source
+    const key = result.match.link ?? result.match.title ?? `#${index}`
+    groups.set(key, [...(groups.get(key) ?? []), index])
+  })
+
+  const covered = new Set<string>()
+  const sources: SourceOverlap[] = [...groups.values()].map((indexes) => {
+    const group = indexes.map((index) => results[index])
+    const { title, link, text } = group[0].match
+    // Exact-sentence hits prove their shingles are in the source; the full
+    // text, when known, shows overlaps the sentence search missed
+    const sourceShingles = new Set(
+      group.flatMap((result) => [...shingles(result.sentence)])
+    )
+    const fullText = text ? shingles(text) : null
+    fullText?.forEach((shingle) => sourceShingles.add(shingle))
+    sourceShingles.forEach((shingle) => {
+      if (articleShingles.has(shingle)) {
+        covered.add(shingle)
+      }
+    })
+
+    return {
+      title,
+      link,
+      sentences: group.map((result) => result.sentence),
+      results: indexes,
+      containment: containment(articleShingles, sourceShingles),
+      ...(fullText ? { jaccard: jaccard(articleShingles, fullText) } : {})
+    }
+  })
+
+  return {
+    percent:
+      articleShingles.size === 0 ? 0 : covered.size / articleShingles.size,
+    sources: sources.sort((a, b) => b.containment - a.containment)
+  }
+}
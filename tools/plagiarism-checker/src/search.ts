@@ -0,0 +1,136 @@
+import {
+  PlagiarismResult,
+  SearchBackend,
+  SearchOptions,
+  SearchResult,
+  SearchSummary
+} from "./types"
+import { QuotaExceededError, SearchError } from "./backends"
+
+export const DEFAULT_CONCURRENCY = 4
+const DEFAULT_RETRIES = 3
+const DEFAULT_BASE_DELAY_MS = 500
+// Web pages change, so matches are looked up again after a week
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+
+interface CachedSearch {
+  match: SearchResult | null
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  )
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+async function cacheKey(backend: SearchBackend, sentence: string) {
+  const normalized = sentence.toLowerCase().replace(/\s+/g, " ").trim()
+  return `search:${backend.name}:${await sha256(normalized)}`
+}
+
+async function searchWithRetry(
+  backend: SearchBackend,
+  sentence: string,
+  retries: number,
+  baseDelayMs: number,
+  wait: (ms: number) => Promise<void>
+): Promise<SearchResult | null> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await backend.search(sentence)
+    } catch (error) {
+      const retryable = !(error instanceof SearchError) || error.retryable
+      if (!retryable || attempt >= retries) {
+        throw error
+      }
+      // Exponential backoff with jitter so parallel workers spread out
+      await wait(baseDelayMs * 2 ** attempt * (1 + Math.random()))
+    }
+  }
+}
+
+// Searches sentences with at most `concurrency` requests in flight. Once the
+// quota runs out the remaining sentences are skipped and the summary is
+// partial.
+export async function searchSentences(
+  sentences: string[],
+  backend: SearchBackend,
+  options: SearchOptions = {}
+): Promise<SearchSummary> {
+  const {
+    cache,
+    concurrency = DEFAULT_CONCURRENCY,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    sleep: wait = sleep
+  } = options
+  const matches: Array<PlagiarismResult | null> = []
+  const summary: SearchSummary = {
+    results: [],
+    checked: 0,
+    skipped: 0,
+    failed: 0,
+    quotaExhausted: false
+  }
+
+  let next = 0
+  async function worker() {
+    while (next < sentences.length) {
+      const index = next++
+      const sentence = sentences[index]
+      if (summary.quotaExhausted) {
+        summary.skipped++
+        continue
+      }
+
+      const key = cache ? await cacheKey(backend, sentence) : ""
+      const cached = cache ? await cache.get<CachedSearch>(key, "json") : null
+      let match: SearchResult | null
+      if (cached) {
+        match = cached.match
+      } else {
+        try {
+          match = await searchWithRetry(
+            backend,
+            sentence,
+            retries,
+            baseDelayMs,
+            wait
+          )
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            summary.quotaExhausted = true
+            summary.skipped++
+          } else {
+            console.error(`Search failed for sentence ${index}:`, error)
+            summary.failed++
+          }
+          continue
+        }
+        await cache?.put(key, JSON.stringify({ match }), {
+          expirationTtl: CACHE_TTL_SECONDS
+        })
+      }
+
+      summary.checked++
+      matches[index] = match ? { sentence, match } : null
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker())
+  )
+
+  // Keep the order of the article
+  summary.results = matches.filter(
+    (result): result is PlagiarismResult => !!result
+  )
+  return summary
+}
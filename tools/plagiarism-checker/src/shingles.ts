@@ -0,0 +1,41 @@
+// Overlapping runs of words; a shared shingle means the same five words in
+// the same order
+export const SHINGLE_SIZE = 5
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) ?? []
+}
+
+export function wordCount(text: string): number {
+  return words(text).length
+}
+
+export function shingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const tokens = words(text)
+  const result = new Set<string>()
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(" "))
+  }
+  return result
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0
+  a.forEach((shingle) => {
+    if (b.has(shingle)) {
+      count++
+    }
+  })
+  return count
+}
+
+// Share of `a` that also appears in `b`
+export function containment(a: Set<string>, b: Set<string>): number {
+  return a.size === 0 ? 0 : intersectionSize(a, b) / a.size
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = intersectionSize(a, b)
+  const union = a.size + b.size - shared
+  return union === 0 ? 0 : shared / union
+}
@@ -0,0 +1,114 @@
+export type Env = {
+  // "google" (default), "bing" or "corpus"
+  SEARCH_BACKEND?: string
+  GOOGLE_API_KEY?: string
+  GOOGLE_SEARCH_ENGINE_CX?: string
+  BING_API_KEY?: string
+  // Search results per sentence hash
+  SEARCH_CACHE?: KVNamespace
+  // Documents the "corpus" backend searches, see kvCorpusBackend
+  SEARCH_CORPUS?: KVNamespace
+  SEARCH_CONCURRENCY?: string
+}
+
+export interface SearchResult {
+  title?: string | null
+  link?: string | null
+  // Full source text when the backend has it (local corpus)
+  text?: string | null
+}
+
+// Finds a page containing the exact sentence, or null when there is none
+export interface SearchBackend {
+  name: string
+  search(sentence: string): Promise<SearchResult | null>
+}
+
+export interface CorpusDocument {
+  title: string
+  link: string
+  text: string
+}
+
+export interface PlagiarismResult {
+  sentence: string
+  match: SearchResult
+}
+
+// Sentences of the article found in one source
+export interface SourceOverlap {
+  title?: string | null
+  link?: string | null
+  sentences: string[]
+  // Indexes of the search results grouped under the source
+  results: number[]
+  // Share of the article's shingles found in the source
+  containment: number
+  // Only when the full source text is known
+  jaccard?: number
+}
+
+export interface PlagiarismReport {
+  // Share of the article's shingles found in any source
+  percent: number
+  sources: SourceOverlap[]
+}
+
+export interface SearchOptions {
+  cache?: KVNamespace
+  concurrency?: number
+  retries?: number
+  baseDelayMs?: number
+  sleep?: (ms: number) => Promise<void>
+}
+
+export interface SearchSummary {
+  results: PlagiarismResult[]
+  checked: number
+  // Sentences not searched because the quota ran out
+  skipped: number
+  // Sentences whose search failed after all retries
+  failed: number
+  quotaExhausted: boolean
+}
+
+export type OutputFormat = "json" | "markdown"
+
+// Offsets are character positions, end exclusive
+export interface SentenceMatch {
+  sentence: string
+  title: string | null
+  url: string | null
+  // Into the submitted text; missing when the sentence cannot be found in it
+  start?: number
+  end?: number
+  // Into the source, when the backend returns its full text
+  sourceStart?: number
+  sourceEnd?: number
+  // Index into `sources`
+  source: number
+}
+
+export interface SourceSummary {
+  title: string | null
+  url: string | null
+  // Percentage of the article's shingles found in the source
+  percent: number
+  jaccard?: number
+  sentences: number
+}
+
+export interface PlagiarismResponse {
+  // Percentage of the article's shingles found in any source
+  percent: number
+  partial: boolean
+  quotaExhausted: boolean
+  sentences: {
+    total: number
+    checked: number
+    skipped: number
+    failed: number
+  }
+  sources: SourceSummary[]
+  matches: SentenceMatch[]
+}
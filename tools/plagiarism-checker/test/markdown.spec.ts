@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+
+import { extractProse, splitSentences } from "../src/markdown"
+
+describe("extractProse", () => {
+  it("keeps only the author's prose", () => {
+    const markdown = [
+      "---",
+      'title: "Example"',
+      "---",
+      "",
+      "# Example",
+      "",
+      "The [exchange](https://example.com) lost **5,000 BTC** in `withdraw()`.",
+      "",
+      "```solidity",
+      "function withdraw() external {}",
+      "```",
+      "",
+      "> A block quote from the team.",
+      "",
+      "- First item",
+      '<img src="chart.png"> See https://example.com/report for details.',
+      "",
+      "[1]: https://example.com/reference"
+    ].join("\n")
+
+    expect(extractProse(markdown)).toBe(
+      "The exchange lost 5,000 BTC in .\nFirst item\nSee for details."
+    )
+  })
+
+  it("drops quotations attributed to someone else", () => {
+    expect(
+      extractProse(
+        'The attacker said on Twitter that "the code allowed every single withdrawal" and left.'
+      )
+    ).toBe("The attacker said on Twitter that and left.")
+    expect(
+      extractProse(
+        '"We are investigating the incident right now", the team wrote.'
+      )
+    ).toBe(", the team wrote.")
+    expect(
+      extractProse(
+        "The statement read: “funds are safe and withdrawals resume”."
+      )
+    ).toBe("The statement read: .")
+  })
+
+  it("keeps quoted terms and the author's own dialogue", () => {
+    const text =
+      'Picture the developer asking "why would anyone call this function twice" before the launch.'
+
+    expect(extractProse(text)).toBe(text)
+    expect(extractProse('The "flash loan" was repaid.')).toBe(
+      'The "flash loan" was repaid.'
+    )
+  })
+})
+
+describe("splitSentences", () => {
+  it("splits lines and sentences, keeping closing quotes and brackets", () => {
+    expect(
+      splitSentences(
+        'It was hacked. "Funds are gone." (Really.)\nA list item\nWhat now?! Nothing'
+      )
+    ).toEqual([
+      "It was hacked.",
+      '"Funds are gone."',
+      "(Really.)",
+      "A list item",
+      "What now?!",
+      "Nothing"
+    ])
+  })
+
+  it("does not split decimals", () => {
+    expect(splitSentences("About 2.5 million USD was lost.")).toEqual([
+      "About 2.5 million USD was lost."
+    ])
+  })
+})
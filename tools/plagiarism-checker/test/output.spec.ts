@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest"
+
+import { PlagiarismResponse, SearchSummary } from "../src/types"
+import { extractProse, locateSentence } from "../src/markdown"
+import { buildReport } from "../src/report"
+import { formatMarkdown, toResponse } from "../src/output"
+
+const TEXT = [
+  "The [exchange](https://exchange.example) lost **5,000 BTC** in one night.",
+  "The team paused all withdrawals at once.",
+  "",
+  "The team paused all withdrawals at once."
+].join("\n")
+const SOURCE =
+  "Yesterday the exchange lost 5,000 BTC in one night, reports say."
+const NEWS = { title: "News", link: "https://news.example", text: SOURCE }
+
+function summary(overrides: Partial<SearchSummary> = {}): SearchSummary {
+  return {
+    results: [
+      { sentence: "The exchange lost 5,000 BTC in one night.", match: NEWS },
+      { sentence: "The team paused all withdrawals at once.", match: {} },
+      { sentence: "The team paused all withdrawals at once.", match: {} }
+    ],
+    checked: 3,
+    skipped: 0,
+    failed: 0,
+    quotaExhausted: false,
+    ...overrides
+  }
+}
+
+function respond(overrides: Partial<SearchSummary> = {}, total = 3) {
+  const search = summary(overrides)
+  return toResponse(
+    TEXT,
+    buildReport(extractProse(TEXT), search.results),
+    search,
+    total
+  )
+}
+
+describe("locateSentence", () => {
+  it("finds sentences whose markup was stripped", () => {
+    const position = locateSentence(
+      TEXT,
+      "The exchange lost 5,000 BTC in one night."
+    )
+
+    // From the first word to the last one, markup included
+    expect(position).toEqual({ start: 0, end: TEXT.indexOf(" night") + 6 })
+  })
+
+  it("searches from the given offset and gives up on unknown sentences", () => {
+    const sentence = "The team paused all withdrawals at once."
+    const first = TEXT.indexOf(sentence)
+
+    expect(locateSentence(TEXT, sentence)?.start).toBe(first)
+    expect(locateSentence(TEXT, sentence, first + 1)?.start).toBe(
+      TEXT.lastIndexOf(sentence)
+    )
+    expect(locateSentence(TEXT, "Not in the article at all.")).toBeNull()
+    expect(locateSentence(TEXT, "...")).toBeNull()
+  })
+})
+
+describe("toResponse", () => {
+  it("locates every match in the article and in its source", () => {
+    const { matches, sources } = respond()
+    const repeated = "The team paused all withdrawals at once."
+
+    expect(matches).toEqual([
+      {
+        sentence: "The exchange lost 5,000 BTC in one night.",
+        title: "News",
+        url: "https://news.example",
+        source: 0,
+        start: 0,
+        end: TEXT.indexOf(" night") + 6,
+        sourceStart: SOURCE.indexOf("the exchange"),
+        sourceEnd: SOURCE.indexOf(" night") + 6
+      },
+      // The same sentence twice is located twice, in order
+      {
+        sentence: repeated,
+        title: null,
+        url: null,
+        source: 1,
+        start: TEXT.indexOf(repeated),
+        end: TEXT.indexOf(repeated) + repeated.length
+      },
+      {
+        sentence: repeated,
+        title: null,
+        url: null,
+        source: 2,
+        start: TEXT.lastIndexOf(repeated),
+        end: TEXT.lastIndexOf(repeated) + repeated.length
+      }
+    ])
+    expect(sources.map(({ title, url }) => [title, url])).toEqual([
+      ["News", "https://news.example"],
+      [null, null],
+      [null, null]
+    ])
+  })
+
+  it("reports partial results and the spent quota", () => {
+    const complete = respond()
+    const partial = respond({ checked: 2, skipped: 1, quotaExhausted: true }, 3)
+
+    expect(complete).toMatchObject({
+      partial: false,
+      quotaExhausted: false,
+      sentences: { total: 3, checked: 3, skipped: 0, failed: 0 }
+    })
+    expect(partial).toMatchObject({
+      partial: true,
+      quotaExhausted: true,
+      sentences: { total: 3, checked: 2, skipped: 1, failed: 0 }
+    })
+  })
+
+  it("rounds percentages to two decimals", () => {
+    const { percent, sources } = respond()
+
+    expect(percent).toBe(Math.round(percent * 100) / 100)
+    expect(sources[0].percent).toBeGreaterThan(0)
+    expect(sources[0].jaccard).toBeDefined()
+  })
+})
+
+describe("formatMarkdown", () => {
+  const response: PlagiarismResponse = {
+    percent: 42.5,
+    partial: true,
+    quotaExhausted: true,
+    sentences: { total: 10, checked: 7, skipped: 2, failed: 1 },
+    sources: [
+      {
+        title: "News",
+        url: "https://news.example",
+        percent: 30,
+        jaccard: 0.25,
+        sentences: 1
+      },
+      { title: null, url: "https://blog.example", percent: 10, sentences: 1 },
+      { title: null, url: null, percent: 2.5, sentences: 1 }
+    ],
+    matches: [
+      {
+        sentence: "First.",
+        title: "News",
+        url: "https://news.example",
+        source: 0
+      },
+      {
+        sentence: "Second.",
+        title: null,
+        url: "https://blog.example",
+        source: 1
+      },
+      { sentence: "Third.", title: null, url: null, source: 2 }
+    ]
+  }
+
+  it("lists sources with their sentences and never prints null", () => {
+    const markdown = formatMarkdown(response)
+
+    expect(markdown).not.toContain("null")
+    expect(markdown).toBe(
+      [
+        "## Plagiarism Check Results:",
+        "",
+        "### 42.50% plagiarism detected",
+        "",
+        "> ⚠️ Partial result: checked 7 of 10 sentences, the search quota ran out (2 skipped), 1 searches failed.",
+        "",
+        "#### [News](https://news.example): 30.00% of the article (Jaccard 0.25)",
+        "",
+        "- First.",
+        "",
+        "#### [https://blog.example](https://blog.example): 10.00% of the article",
+        "",
+        "- Second.",
+        "",
+        "#### Unknown source: 2.50% of the article",
+        "",
+        "- Third.",
+        "",
+        ""
+      ].join("\n")
+    )
+  })
+
+  it("says so when nothing was found", () => {
+    expect(
+      formatMarkdown({
+        ...response,
+        percent: 0,
+        partial: false,
+        quotaExhausted: false,
+        sources: [],
+        matches: []
+      })
+    ).toBe(
+      "## Plagiarism Check Results:\n\n### 0.00% plagiarism detected\n\n### No plagiarism detected."
+    )
+  })
+})
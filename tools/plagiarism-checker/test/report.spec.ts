@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest"
+
+import { buildReport } from "../src/report"
+
+const ARTICLE =
+  "The attacker drained the hot wallet overnight. The team paused all withdrawals at once. Nobody expected the bridge to fail."
+
+describe("buildReport", () => {
+  it("groups matches by source and scores each source", () => {
+    const report = buildReport(ARTICLE, [
+      {
+        sentence: "The attacker drained the hot wallet overnight.",
+        match: { title: "News", link: "https://news.example" }
+      },
+      {
+        sentence: "The team paused all withdrawals at once.",
+        match: { title: "News", link: "https://news.example" }
+      },
+      {
+        sentence: "Nobody expected the bridge to fail.",
+        match: {
+          title: "Blog",
+          link: "https://blog.example",
+          text: "Nobody expected the bridge to fail. It did."
+        }
+      }
+    ])
+
+    expect(
+      report.sources.map(({ link, sentences }) => [link, sentences.length])
+    ).toEqual([
+      ["https://news.example", 2],
+      ["https://blog.example", 1]
+    ])
+    // 16 shingles in the article, counting those across sentences: 3 + 3
+    // from the news sentences and 2 from the blog's
+    expect(report.sources[0].containment).toBeCloseTo(6 / 16)
+    expect(report.sources[0].jaccard).toBeUndefined()
+    expect(report.sources[1].containment).toBeCloseTo(2 / 16)
+    // The blog's full text adds 2 shingles the article does not have
+    expect(report.sources[1].jaccard).toBeCloseTo(2 / 18)
+    expect(report.percent).toBeCloseTo(8 / 16)
+  })
+
+  it("keeps results without a link or title apart", () => {
+    const report = buildReport(ARTICLE, [
+      {
+        sentence: "The attacker drained the hot wallet overnight.",
+        match: { title: null, link: null }
+      },
+      { sentence: "Nobody expected the bridge to fail.", match: {} }
+    ])
+
+    expect(report.sources).toHaveLength(2)
+    expect(report.sources.map(({ sentences }) => sentences)).toEqual([
+      ["The attacker drained the hot wallet overnight."],
+      ["Nobody expected the bridge to fail."]
+    ])
+  })
+
+  it("scores an article without matches as original", () => {
+    expect(buildReport(ARTICLE, [])).toEqual({ percent: 0, sources: [] })
+  })
+})
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from "vitest"
+
+import { SearchBackend, SearchResult } from "../src/types"
+import { searchSentences } from "../src/search"
+import {
+  CORPUS_KEY,
+  createBackend,
+  QuotaExceededError,
+  SearchError
+} from "../src/backends"
+
+// Answers from a map of sentence to result; sentences it does not know have
+// no match
+function stubBackend(
+  results: Record<string, SearchResult> = {},
+  delayMs = 0
+): SearchBackend & { calls: string[]; maxInFlight: number } {
+  let inFlight = 0
+  const backend = {
+    name: "stub",
+    calls: [] as string[],
+    maxInFlight: 0,
+    async search(sentence: string) {
+      backend.calls.push(sentence)
+      inFlight++
+      backend.maxInFlight = Math.max(backend.maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+      inFlight--
+      return results[sentence] ?? null
+    }
+  }
+  return backend
+}
+
+function createKV() {
+  const store = new Map<string, string>()
+  return {
+    store,
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = store.get(key) ?? null
+      return type === "json" && value !== null ? JSON.parse(value) : value
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value)
+    })
+  } as unknown as KVNamespace & { store: Map<string, string> }
+}
+
+const sentences = ["one", "two", "three", "four", "five", "six"]
+const noWait = async () => {}
+
+describe("searchSentences", () => {
+  it("keeps at most `concurrency` searches in flight and the article order", async () => {
+    const backend = stubBackend(
+      {
+        two: { title: "Two", link: "https://two.example" },
+        five: { title: "Five", link: "https://five.example" }
+      },
+      5
+    )
+
+    const summary = await searchSentences(sentences, backend, {
+      concurrency: 2
+    })
+
+    expect(backend.maxInFlight).toBe(2)
+    expect(backend.calls).toHaveLength(6)
+    expect(summary).toEqual({
+      results: [
+        {
+          sentence: "two",
+          match: { title: "Two", link: "https://two.example" }
+        },
+        {
+          sentence: "five",
+          match: { title: "Five", link: "https://five.example" }
+        }
+      ],
+      checked: 6,
+      skipped: 0,
+      failed: 0,
+      quotaExhausted: false
+    })
+  })
+
+  it("retries retryable errors with exponential backoff", async () => {
+    let attempts = 0
+    const backend: SearchBackend = {
+      name: "flaky",
+      search: async () => {
+        if (++attempts < 3) {
+          throw new SearchError("HTTP 503", true)
+        }
+        return { title: "Found", link: "https://found.example" }
+      }
+    }
+    const delays: number[] = []
+
+    const summary = await searchSentences(["one"], backend, {
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        delays.push(ms)
+      }
+    })
+
+    expect(summary.results).toHaveLength(1)
+    expect(delays).toHaveLength(2)
+    // Jitter adds up to the delay again
+    expect(delays[0]).toBeGreaterThanOrEqual(100)
+    expect(delays[0]).toBeLessThan(200)
+    expect(delays[1]).toBeGreaterThanOrEqual(200)
+    expect(delays[1]).toBeLessThan(400)
+  })
+
+  it("counts searches that keep failing or cannot be retried", async () => {
+    const search = vi.fn(async (sentence: string) => {
+      throw new SearchError(`failed ${sentence}`, sentence === "one")
+    })
+
+    const summary = await searchSentences(
+      ["one", "two"],
+      { name: "broken", search },
+      { retries: 2, sleep: noWait }
+    )
+
+    // "one" is tried three times, "two" once
+    expect(search).toHaveBeenCalledTimes(4)
+    expect(summary).toMatchObject({ checked: 0, failed: 2, skipped: 0 })
+  })
+
+  it("caches results per sentence, including misses", async () => {
+    const cache = createKV()
+    const first = stubBackend({ two: { title: "Two", link: "https://two" } })
+    const second = stubBackend()
+    second.name = first.name
+
+    await searchSentences(["one", "two"], first, { cache })
+    const summary = await searchSentences(["One ", "two"], second, { cache })
+
+    expect(cache.store.size).toBe(2)
+    expect([...cache.store.keys()][0]).toMatch(/^search:stub:[0-9a-f]{64}$/)
+    expect(cache.put).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(String),
+      {
+        expirationTtl: 7 * 24 * 60 * 60
+      }
+    )
+    // Sentences are normalized before hashing
+    expect(second.calls).toEqual([])
+    expect(summary.results).toEqual([
+      { sentence: "two", match: { title: "Two", link: "https://two" } }
+    ])
+  })
+
+  it("returns a partial result once the quota runs out", async () => {
+    const search = vi.fn(async (sentence: string) => {
+      if (sentence === "three") {
+        throw new QuotaExceededError("Queries per day exceeded")
+      }
+      return sentence === "one" ? { title: "One", link: "https://one" } : null
+    })
+
+    const summary = await searchSentences(
+      sentences,
+      { name: "limited", search },
+      { concurrency: 1, sleep: noWait }
+    )
+
+    // Quota errors are not retried
+    expect(search).toHaveBeenCalledTimes(3)
+    expect(summary).toEqual({
+      results: [
+        { sentence: "one", match: { title: "One", link: "https://one" } }
+      ],
+      checked: 2,
+      skipped: 4,
+      failed: 0,
+      quotaExhausted: true
+    })
+  })
+})
+
+describe("createBackend", () => {
+  it("selects the backend from SEARCH_BACKEND", () => {
+    expect(createBackend({})).toBe("API key not found")
+    expect(
+      createBackend({ GOOGLE_API_KEY: "key", GOOGLE_SEARCH_ENGINE_CX: "cx" })
+    ).toMatchObject({ name: "google" })
+    expect(createBackend({ SEARCH_BACKEND: "bing" })).toBe(
+      "Bing API key not found"
+    )
+    expect(createBackend({ SEARCH_BACKEND: "corpus" })).toBe(
+      "SEARCH_CORPUS namespace not bound"
+    )
+    expect(createBackend({ SEARCH_BACKEND: "yahoo" })).toBe(
+      "Unknown search backend yahoo"
+    )
+  })
+
+  it("searches the documents stored for the corpus backend", async () => {
+    const corpus = createKV()
+    corpus.store.set(
+      CORPUS_KEY,
+      JSON.stringify([
+        {
+          title: "Bitcoin7",
+          link: "https://wiki.example/bitcoin7",
+          text: "The exchange was  hacked in October 2011."
+        }
+      ])
+    )
+    const backend = createBackend({
+      SEARCH_BACKEND: "corpus",
+      SEARCH_CORPUS: corpus
+    }) as SearchBackend
+
+    expect(await backend.search("the exchange was hacked")).toMatchObject({
+      title: "Bitcoin7",
+      link: "https://wiki.example/bitcoin7"
+    })
+    expect(await backend.search("Something else entirely")).toBeNull()
+    // The documents are read once
+    expect(corpus.get).toHaveBeenCalledTimes(1)
+  })
+
+  it("fails the corpus searches when no documents are stored", async () => {
+    const backend = createBackend({
+      SEARCH_BACKEND: "corpus",
+      SEARCH_CORPUS: createKV()
+    }) as SearchBackend
+
+    await expect(backend.search("anything")).rejects.toThrow(
+      'No "documents" in SEARCH_CORPUS'
+    )
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest"
+
+import { containment, jaccard, shingles, wordCount } from "../src/shingles"
+
+describe("shingles", () => {
+  it("builds overlapping five-word runs, ignoring case and punctuation", () => {
+    expect([
+      ...shingles("The exchange's hot wallet, was drained today!")
+    ]).toEqual([
+      "the exchange's hot wallet was",
+      "exchange's hot wallet was drained",
+      "hot wallet was drained today"
+    ])
+    expect(shingles("Too short to count")).toEqual(new Set())
+    expect(wordCount("The exchange's hot wallet")).toBe(4)
+  })
+})
+
+describe("containment and jaccard", () => {
+  const article = shingles("one two three four five six seven")
+  const source = shingles("three four five six seven eight nine")
+
+  it("scores the share of the article in the source", () => {
+    // The article has 3 shingles, one of them in the source
+    expect(containment(article, source)).toBeCloseTo(1 / 3)
+    expect(containment(article, article)).toBe(1)
+    expect(containment(new Set(), source)).toBe(0)
+  })
+
+  it("scores the overlap of both texts", () => {
+    // 1 shared shingle out of 5 distinct ones
+    expect(jaccard(article, source)).toBeCloseTo(1 / 5)
+    expect(jaccard(new Set(), new Set())).toBe(0)
+  })
+})
@@ -0,0 +1,253 @@
+import { DocumentEntry, DocumentRecord, Env, IngestResult } from "./types"
+
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5"
+
+// bge-base-en-v1.5 reads at most 512 tokens, about four characters each
+export const MAX_CHUNK_CHARS = 1500
+// Workers AI embeds at most 100 texts per request
+const EMBED_BATCH_SIZE = 100
+// Vectorize upserts and deletes at most 1000 vectors per call
+const VECTORIZE_BATCH_SIZE = 1000
+// Every document costs two KV operations and a Worker may make 1000
+export const MAX_DOCUMENTS = 400
+
+export function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size))
+  }
+  return result
+}
+
+export async function embed(ai: Ai, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = []
+  for (const batch of batches(texts, EMBED_BATCH_SIZE)) {
+    const response = await ai.run(EMBEDDING_MODEL, { text: batch })
+    if (!("data" in response) || !response.data) {
+      throw new Error("Embedding response contains no vectors")
+    }
+    vectors.push(...response.data)
+  }
+  return vectors
+}
+
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [paragraph]
+  const pieces: string[] = []
+  let current = ""
+  for (const sentence of sentences.map((sentence) => sentence.trim())) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current)
+      current = ""
+    }
+    current = current ? `${current} ${sentence}` : sentence
+    // A single sentence longer than a chunk is cut where it overflows
+    while (current.length > maxChars) {
+      pieces.push(current.slice(0, maxChars))
+      current = current.slice(maxChars)
+    }
+  }
+  if (current) {
+    pieces.push(current)
+  }
+  return pieces
+}
+
+// Packs whole paragraphs into chunks the embedding model reads in full
+export function chunkText(text: string, maxChars = MAX_CHUNK_CHARS): string[] {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      paragraph.length > maxChars
+        ? splitParagraph(paragraph, maxChars)
+        : [paragraph]
+    )
+
+  const chunks: string[] = []
+  let current = ""
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current)
+      current = ""
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+  }
+  if (current) {
+    chunks.push(current)
+  }
+  return chunks
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  )
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+// Vector ids are limited to 64 bytes and shared by all namespaces, so the
+// path is hashed together with the namespace
+export async function documentId(
+  namespace: string,
+  path: string
+): Promise<string> {
+  return (await sha256(`${namespace}\n${path}`)).slice(0, 40)
+}
+
+function chunkIds(id: string, from: number, to: number): string[] {
+  return Array.from(
+    { length: Math.max(to - from, 0) },
+    (_, i) => `${id}:${from + i}`
+  )
+}
+
+function recordKey(namespace: string, path: string): string {
+  return `doc:${namespace}:${path}`
+}
+
+async function deleteVectors(env: Env, ids: string[]): Promise<void> {
+  for (const batch of batches(ids, VECTORIZE_BATCH_SIZE)) {
+    await env.VECTORIZE_INDEX.deleteByIds(batch)
+  }
+}
+
+export async function listDocuments(
+  env: Env,
+  namespace: string
+): Promise<string[]> {
+  const prefix = recordKey(namespace, "")
+  const paths: string[] = []
+  let cursor: string | undefined
+  do {
+    const page = await env.DOCUMENTS.list({ prefix, cursor })
+    paths.push(...page.keys.map((key) => key.name.slice(prefix.length)))
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+  return paths
+}
+
+// Embeds new and changed documents and removes chunks left over when a
+// document got shorter. Unchanged documents are skipped.
+export async function upsertDocuments(
+  env: Env,
+  namespace: string,
+  documents: DocumentEntry[]
+): Promise<IngestResult> {
+  const result: IngestResult = {
+    upserted: [],
+    unchanged: [],
+    deleted: [],
+    chunks: 0
+  }
+  const pending: {
+    id: string
+    text: string
+    metadata: Record<string, VectorizeVectorMetadataValue>
+  }[] = []
+  const staleIds: string[] = []
+  const records = new Map<string, DocumentRecord>()
+
+  for (const document of documents) {
+    const hash = await sha256(
+      JSON.stringify([document.title, document.date, document.text])
+    )
+    const previous = await env.DOCUMENTS.get<DocumentRecord>(
+      recordKey(namespace, document.path),
+      "json"
+    )
+    if (previous?.hash === hash) {
+      result.unchanged.push(document.path)
+      continue
+    }
+
+    const id = await documentId(namespace, document.path)
+    const chunks = chunkText(document.text)
+    chunks.forEach((text, chunk) => {
+      pending.push({
+        id: `${id}:${chunk}`,
+        text,
+        metadata: {
+          path: document.path,
+          chunk,
+          ...(document.title ? { title: document.title } : {}),
+          ...(document.date ? { date: document.date } : {})
+        }
+      })
+    })
+    staleIds.push(...chunkIds(id, chunks.length, previous?.chunks ?? 0))
+    records.set(document.path, {
+      hash,
+      chunks: chunks.length,
+      title: document.title,
+      date: document.date
+    })
+    result.upserted.push(document.path)
+  }
+
+  const values = await embed(
+    env.AI,
+    pending.map((vector) => vector.text)
+  )
+  const vectors: VectorizeVector[] = pending.map((vector, index) => ({
+    id: vector.id,
+    values: values[index],
+    namespace,
+    metadata: vector.metadata
+  }))
+  for (const batch of batches(vectors, VECTORIZE_BATCH_SIZE)) {
+    await env.VECTORIZE_INDEX.upsert(batch)
+  }
+  await deleteVectors(env, staleIds)
+
+  // Records are written last so a failed run is retried in full
+  for (const [path, record] of records) {
+    await env.DOCUMENTS.put(recordKey(namespace, path), JSON.stringify(record))
+  }
+  result.chunks = vectors.length
+  return result
+}
+
+export async function deleteDocuments(
+  env: Env,
+  namespace: string,
+  paths: string[]
+): Promise<string[]> {
+  const deleted: string[] = []
+  const ids: string[] = []
+  for (const path of paths) {
+    const record = await env.DOCUMENTS.get<DocumentRecord>(
+      recordKey(namespace, path),
+      "json"
+    )
+    if (record) {
+      ids.push(...chunkIds(await documentId(namespace, path), 0, record.chunks))
+      deleted.push(path)
+    }
+  }
+
+  await deleteVectors(env, ids)
+  for (const path of deleted) {
+    await env.DOCUMENTS.delete(recordKey(namespace, path))
+  }
+  return deleted
+}
+
+// Makes the namespace hold exactly the given documents
+export async function reindexDocuments(
+  env: Env,
+  namespace: string,
+  documents: DocumentEntry[]
+): Promise<IngestResult> {
+  const paths = new Set(documents.map((document) => document.path))
+  const removed = (await listDocuments(env, namespace)).filter(
+    (path) => !paths.has(path)
+  )
+  const result = await upsertDocuments(env, namespace, documents)
+  result.deleted = await deleteDocuments(env, namespace, removed)
+  return result
+}
@@ -0,0 +1,5 @@
+import { Env } from "./types"
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {}
+}
@@ -1,15 +1,20 @@
 import { Hono } from "hono"
 
-type Env = {
-  API_KEY_TOKEN_CHECK: string
-  AI: Ai
-  VECTORIZE_INDEX: VectorizeIndex
-}
-
-type TextEntry = {
-  text: string
-  namespace: string
-}
+import {
+  DeleteRequest,
+  DocumentEntry,
+  Env,
+  IngestRequest,
+  QueryRequest
+} from "./types"
+import {
+  MAX_DOCUMENTS,
+  deleteDocuments,
+  listDocuments,
+  reindexDocuments,
+  upsertDocuments
+} from "./documents"
+import { queryV1, queryV2, validateQuery } from "./query"
 
 const app = new Hono<{ Bindings: Env }>()
 
@@ -27,25 +32,98 @@ app.use("*", async (c, next) => {
   return next()
 })
 
+function isDocument(value: unknown): value is DocumentEntry {
+  const document = value as DocumentEntry
+  return (
+    typeof document?.path === "string" &&
+    document.path !== "" &&
+    typeof document.text === "string" &&
+    document.text.trim() !== "" &&
+    ["string", "undefined"].includes(typeof document.title) &&
+    ["string", "undefined"].includes(typeof document.date)
+  )
+}
+
+// Returns an error message for malformed ingest requests
+function validateIngest(data: IngestRequest | null): string | null {
+  if (typeof data?.namespace !== "string" || !Array.isArray(data.documents)) {
+    return "Invalid JSON format"
+  }
+  if (data.documents.length > MAX_DOCUMENTS) {
+    return `At most ${MAX_DOCUMENTS} documents per request`
+  }
+  const invalid = data.documents.findIndex((document) => !isDocument(document))
+  if (invalid !== -1) {
+    return `Document ${invalid} needs a path and text; title and date must be strings`
+  }
+  const paths = data.documents.map((document) => document.path)
+  if (new Set(paths).size !== paths.length) {
+    return "Document paths must be unique"
+  }
+  return null
+}
+
+// Without "version" the response keeps the original { similarity_score }
+// shape; "version": 2 adds matches, query options and paragraph results
 app.post("/", async (c) => {
-  const data = await c.req.json<TextEntry>()
-  const { text, namespace } = data
+  const data = await c.req.json<QueryRequest>().catch(() => null)
+  const error = validateQuery(data)
+  if (error || !data) {
+    return c.text(error ?? "Invalid JSON format", 400)
+  }
+
+  return c.json(
+    data.version === 2 ? await queryV2(c.env, data) : await queryV1(c.env, data)
+  )
+})
+
+app.get("/documents", async (c) => {
+  const namespace = c.req.query("namespace")
+  if (!namespace) {
+    return c.text("Missing namespace", 400)
+  }
+  return c.json({ paths: await listDocuments(c.env, namespace) })
+})
 
-  if (typeof text !== "string" || typeof namespace !== "string") {
+// Adds new documents and re-embeds changed ones
+app.post("/documents", async (c) => {
+  const data = await c.req.json<IngestRequest>().catch(() => null)
+  const error = validateIngest(data)
+  if (error || !data) {
+    return c.text(error ?? "Invalid JSON format", 400)
+  }
+
+  return c.json(await upsertDocuments(c.env, data.namespace, data.documents))
+})
+
+app.delete("/documents", async (c) => {
+  const data = await c.req.json<DeleteRequest>().catch(() => null)
+  if (
+    typeof data?.namespace !== "string" ||
+    !Array.isArray(data.paths) ||
+    data.paths.some((path) => typeof path !== "string")
+  ) {
     return c.text("Invalid JSON format", 400)
   }
+  if (data.paths.length > MAX_DOCUMENTS) {
+    return c.text(`At most ${MAX_DOCUMENTS} documents per request`, 400)
+  }
 
-  const modelResp = await c.env.AI.run("@cf/baai/bge-base-en-v1.5", {
-    text: [text]
-  })
-  const vector = modelResp.data[0]
-  const searchResponse = await c.env.VECTORIZE_INDEX.query(vector, {
-    namespace,
-    topK: 1
+  return c.json({
+    deleted: await deleteDocuments(c.env, data.namespace, data.paths)
   })
-  const similarityScore = searchResponse.matches[0]?.score || 0
+})
+
+// Syncs the namespace with the complete list of articles: documents missing
+// from the list are deleted
+app.post("/reindex", async (c) => {
+  const data = await c.req.json<IngestRequest>().catch(() => null)
+  const error = validateIngest(data)
+  if (error || !data) {
+    return c.text(error ?? "Invalid JSON format", 400)
+  }
 
-  return c.json({ similarity_score: similarityScore })
+  return c.json(await reindexDocuments(c.env, data.namespace, data.documents))
 })
 
 export default app
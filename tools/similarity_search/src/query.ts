@@ -0,0 +1,165 @@
+import {
+  DocumentMatch,
+  Env,
+  ParagraphResult,
+  QueryRequest,
+  QueryResponseV1,
+  QueryResponseV2
+} from "./types"
+import { embed } from "./documents"
+
+export const SUPPORTED_VERSIONS = [1, 2]
+export const DEFAULT_TOP_K = 5
+// Vectorize returns at most 20 matches when metadata is requested
+export const MAX_TOP_K = 20
+// Each paragraph is a separate Vectorize query
+export const MAX_PARAGRAPHS = 50
+// Headings and one-line captions match everything
+const MIN_PARAGRAPH_CHARS = 40
+
+const QUERY_OPTIONS = ["topK", "minScore", "filter", "perParagraph"] as const
+
+// Returns an error message for malformed queries
+export function validateQuery(data: QueryRequest | null): string | null {
+  if (typeof data?.text !== "string" || typeof data.namespace !== "string") {
+    return "Invalid JSON format"
+  }
+  const version = data.version ?? 1
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    return `Unsupported version ${version}, expected one of: ${SUPPORTED_VERSIONS.join(", ")}`
+  }
+  if (version === 1) {
+    const option = QUERY_OPTIONS.find((name) => data[name] !== undefined)
+    return option ? `\`${option}\` requires "version": 2` : null
+  }
+
+  const { topK, minScore, filter, perParagraph } = data
+  if (
+    topK !== undefined &&
+    !(Number.isInteger(topK) && topK >= 1 && topK <= MAX_TOP_K)
+  ) {
+    return `topK must be an integer between 1 and ${MAX_TOP_K}`
+  }
+  if (
+    minScore !== undefined &&
+    !(typeof minScore === "number" && minScore >= -1 && minScore <= 1)
+  ) {
+    return "minScore must be a number between -1 and 1"
+  }
+  if (
+    filter !== undefined &&
+    (typeof filter !== "object" || filter === null || Array.isArray(filter))
+  ) {
+    return "filter must be an object of metadata conditions"
+  }
+  if (perParagraph !== undefined && typeof perParagraph !== "boolean") {
+    return "perParagraph must be a boolean"
+  }
+  return null
+}
+
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter((paragraph) => paragraph.length >= MIN_PARAGRAPH_CHARS)
+}
+
+// Several chunks of one document can match; only the best one is kept
+function toDocumentMatches(
+  matches: VectorizeMatch[],
+  topK: number,
+  minScore: number
+): DocumentMatch[] {
+  const documents = new Map<string, DocumentMatch>()
+  for (const match of matches) {
+    const metadata = (match.metadata ?? {}) as Record<string, unknown>
+    // Vectors added before documents had metadata only have an id
+    const path = typeof metadata.path === "string" ? metadata.path : match.id
+    if (match.score < minScore || documents.has(path)) {
+      continue
+    }
+    documents.set(path, {
+      id: match.id,
+      path,
+      ...(typeof metadata.title === "string" ? { title: metadata.title } : {}),
+      ...(typeof metadata.date === "string" ? { date: metadata.date } : {}),
+      ...(typeof metadata.chunk === "number" ? { chunk: metadata.chunk } : {}),
+      score: match.score
+    })
+  }
+  return [...documents.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+}
+
+async function search(
+  env: Env,
+  vector: number[],
+  query: QueryRequest
+): Promise<DocumentMatch[]> {
+  const topK = query.topK ?? DEFAULT_TOP_K
+  const { matches } = await env.VECTORIZE_INDEX.query(vector, {
+    namespace: query.namespace,
+    // Room for several chunks of the same document
+    topK: MAX_TOP_K,
+    returnMetadata: true,
+    ...(query.filter ? { filter: query.filter } : {})
+  })
+  return toDocumentMatches(matches, topK, query.minScore ?? -1)
+}
+
+export async function queryV1(
+  env: Env,
+  query: QueryRequest
+): Promise<QueryResponseV1> {
+  const [vector] = await embed(env.AI, [query.text])
+  const searchResponse = await env.VECTORIZE_INDEX.query(vector, {
+    namespace: query.namespace,
+    topK: 1
+  })
+  return { similarity_score: searchResponse.matches[0]?.score || 0 }
+}
+
+export async function queryV2(
+  env: Env,
+  query: QueryRequest
+): Promise<QueryResponseV2> {
+  const allParagraphs = query.perParagraph ? splitParagraphs(query.text) : []
+  const paragraphs = allParagraphs.slice(0, MAX_PARAGRAPHS)
+  // The whole text and every paragraph are embedded in one batch
+  const [vector, ...paragraphVectors] = await embed(env.AI, [
+    query.text,
+    ...paragraphs
+  ])
+
+  const matches = await search(env, vector, query)
+  const response: QueryResponseV2 = {
+    version: 2,
+    similarity_score: matches[0]?.score ?? 0,
+    matches
+  }
+
+  if (query.perParagraph) {
+    response.paragraphs = await Promise.all(
+      paragraphs.map(async (text, index): Promise<ParagraphResult> => {
+        const paragraphMatches = await search(
+          env,
+          paragraphVectors[index],
+          query
+        )
+        return {
+          index,
+          text,
+          similarity_score: paragraphMatches[0]?.score ?? 0,
+          matches: paragraphMatches
+        }
+      })
+    )
+    if (allParagraphs.length > paragraphs.length) {
+      response.truncated = true
+    }
+  }
+
+  return response
+}
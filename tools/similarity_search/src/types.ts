@@ -0,0 +1,82 @@
+export type Env = {
+  API_KEY_TOKEN_CHECK: string
+  AI: Ai
+  VECTORIZE_INDEX: VectorizeIndex
+  // Chunk count and content hash of every ingested document
+  DOCUMENTS: KVNamespace
+}
+
+export type TextEntry = {
+  text: string
+  namespace: string
+}
+
+export type DocumentEntry = {
+  // Stable identifier, usually the article path
+  path: string
+  title?: string
+  date?: string
+  text: string
+}
+
+export type DocumentRecord = {
+  hash: string
+  chunks: number
+  title?: string
+  date?: string
+}
+
+export type IngestRequest = {
+  namespace: string
+  documents: DocumentEntry[]
+}
+
+export type DeleteRequest = {
+  namespace: string
+  paths: string[]
+}
+
+export type IngestResult = {
+  upserted: string[]
+  unchanged: string[]
+  deleted: string[]
+  chunks: number
+}
+
+// Version 1 returns only the best score; version 2 adds matches and options
+export type QueryRequest = TextEntry & {
+  version?: number
+  topK?: number
+  minScore?: number
+  filter?: VectorizeVectorMetadataFilter
+  perParagraph?: boolean
+}
+
+export type DocumentMatch = {
+  // Id of the best matching chunk
+  id: string
+  path: string
+  title?: string
+  date?: string
+  chunk?: number
+  score: number
+}
+
+export type ParagraphResult = {
+  index: number
+  text: string
+  similarity_score: number
+  matches: DocumentMatch[]
+}
+
+export type QueryResponseV1 = {
+  similarity_score: number
+}
+
+export type QueryResponseV2 = QueryResponseV1 & {
+  version: 2
+  matches: DocumentMatch[]
+  paragraphs?: ParagraphResult[]
+  // Set when the text had more paragraphs than are searched
+  truncated?: boolean
+}
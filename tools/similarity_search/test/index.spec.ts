@@ -1,7 +1,32 @@
-import { SELF } from "cloudflare:test"
+import { SELF, env } from "cloudflare:test"
 import { describe, it, expect } from "vitest"
 
 import "../src/index"
+import { chunkText, documentId, MAX_CHUNK_CHARS } from "../src/documents"
+import { QueryResponseV2 } from "../src/types"
+
+const HEADERS = {
+  "Content-Type": "application/json",
+  "X-API-Key": "test-api-key"
+}
+
+function request(path: string, method: string, body: unknown) {
+  return SELF.fetch(`https://example.com${path}`, {
+    method,
+    headers: HEADERS,
+    body: JSON.stringify(body)
+  })
+}
+
+async function storedChunks(namespace: string, path: string) {
+  const id = await documentId(namespace, path)
+  const vectors = await env.VECTORIZE_INDEX.getByIds(
+    Array.from({ length: 10 }, (_, i) => `${id}:${i}`)
+  )
+  return vectors.map((vector) => vector.metadata)
+}
+
+const paragraph = (word: string) => `${word} `.repeat(200).trim()
 
 describe("Authentication", () => {
   it("returns 401 Unauthorized when API key is missing or invalid", async () => {
@@ -20,3 +45,232 @@ describe("Authentication", () => {
     expect(await response.text()).toBe("Unauthorized")
   })
 })
+
+describe("chunkText", () => {
+  it("packs paragraphs and splits long ones by sentence", () => {
+    const long = "A sentence that is repeated. ".repeat(100)
+    const chunks = chunkText(`First.\n\nSecond.\n\n${long}`)
+
+    expect(chunks[0]).toMatch(/^First\.\n\nSecond\./)
+    expect(chunks.every((chunk) => chunk.length <= MAX_CHUNK_CHARS)).toBe(true)
+    expect(chunks.join(" ")).toContain("repeated.")
+  })
+})
+
+describe("Documents", () => {
+  it("ingests chunks with metadata and skips unchanged documents", async () => {
+    const document = {
+      path: "incidents/a.md",
+      title: "A",
+      date: "2024-01-01",
+      text: [paragraph("alpha"), paragraph("beta"), paragraph("gamma")].join(
+        "\n\n"
+      )
+    }
+
+    const first = await request("/documents", "POST", {
+      namespace: "ingest",
+      documents: [document]
+    })
+    expect(await first.json()).toEqual({
+      upserted: ["incidents/a.md"],
+      unchanged: [],
+      deleted: [],
+      chunks: 3
+    })
+    expect(await storedChunks("ingest", "incidents/a.md")).toEqual([
+      { path: "incidents/a.md", chunk: 0, title: "A", date: "2024-01-01" },
+      { path: "incidents/a.md", chunk: 1, title: "A", date: "2024-01-01" },
+      { path: "incidents/a.md", chunk: 2, title: "A", date: "2024-01-01" }
+    ])
+
+    const second = await request("/documents", "POST", {
+      namespace: "ingest",
+      documents: [document]
+    })
+    expect(await second.json()).toMatchObject({
+      upserted: [],
+      unchanged: ["incidents/a.md"],
+      chunks: 0
+    })
+  })
+
+  it("removes chunks left over when a document gets shorter", async () => {
+    const path = "incidents/b.md"
+    await request("/documents", "POST", {
+      namespace: "upsert",
+      documents: [
+        { path, text: [paragraph("one"), paragraph("two")].join("\n\n") }
+      ]
+    })
+    await request("/documents", "POST", {
+      namespace: "upsert",
+      documents: [{ path, text: "Short now." }]
+    })
+
+    expect(await storedChunks("upsert", path)).toEqual([{ path, chunk: 0 }])
+  })
+
+  it("deletes documents and lists the remaining ones", async () => {
+    await request("/documents", "POST", {
+      namespace: "delete",
+      documents: [
+        { path: "a.md", text: "Alpha." },
+        { path: "b.md", text: "Beta." }
+      ]
+    })
+
+    const response = await request("/documents", "DELETE", {
+      namespace: "delete",
+      paths: ["a.md", "missing.md"]
+    })
+    expect(await response.json()).toEqual({ deleted: ["a.md"] })
+    expect(await storedChunks("delete", "a.md")).toEqual([])
+
+    const list = await SELF.fetch(
+      "https://example.com/documents?namespace=delete",
+      { headers: HEADERS }
+    )
+    expect(await list.json()).toEqual({ paths: ["b.md"] })
+  })
+
+  it("syncs a namespace with the list of articles on reindex", async () => {
+    await request("/documents", "POST", {
+      namespace: "reindex",
+      documents: [
+        { path: "kept.md", text: "Kept." },
+        { path: "removed.md", text: "Removed." }
+      ]
+    })
+
+    const response = await request("/reindex", "POST", {
+      namespace: "reindex",
+      documents: [
+        { path: "kept.md", text: "Kept." },
+        { path: "new.md", text: "New." }
+      ]
+    })
+    expect(await response.json()).toEqual({
+      upserted: ["new.md"],
+      unchanged: ["kept.md"],
+      deleted: ["removed.md"],
+      chunks: 1
+    })
+    expect(await storedChunks("reindex", "removed.md")).toEqual([])
+  })
+
+  it("rejects malformed documents", async () => {
+    const response = await request("/documents", "POST", {
+      namespace: "invalid",
+      documents: [{ path: "a.md" }]
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe(
+      "Document 0 needs a path and text; title and date must be strings"
+    )
+  })
+})
+
+describe("Query", () => {
+  const documents = [
+    {
+      path: "alpha.md",
+      title: "Alpha",
+      date: "2024-01-01",
+      text: "alpha alpha"
+    },
+    { path: "beta.md", title: "Beta", date: "2024-02-01", text: "beta beta" },
+    {
+      path: "mixed.md",
+      title: "Mixed",
+      text: `${paragraph("alpha")}\n\n${paragraph("gamma")}`
+    }
+  ]
+
+  async function ingest(namespace: string) {
+    await request("/documents", "POST", { namespace, documents })
+  }
+
+  it("keeps the single-score response without a version", async () => {
+    const response = await request("/", "POST", {
+      text: "Sample text",
+      namespace: "legacy"
+    })
+
+    expect(await response.json()).toEqual({ similarity_score: 0.5678 })
+  })
+
+  it("rejects version 2 options on version 1 queries", async () => {
+    const response = await request("/", "POST", {
+      text: "Sample text",
+      namespace: "legacy",
+      topK: 3
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe('`topK` requires "version": 2')
+  })
+
+  it("returns the best documents with metadata", async () => {
+    await ingest("query-v2")
+
+    const response = await request("/", "POST", {
+      version: 2,
+      text: "alpha",
+      namespace: "query-v2",
+      topK: 2,
+      minScore: 0.5
+    })
+    const body = await response.json<QueryResponseV2>()
+
+    expect(body.version).toBe(2)
+    expect(body.matches.map((match) => match.path)).toEqual([
+      "alpha.md",
+      "mixed.md"
+    ])
+    expect(body.matches[0]).toMatchObject({
+      title: "Alpha",
+      date: "2024-01-01",
+      chunk: 0
+    })
+    expect(body.similarity_score).toBe(body.matches[0].score)
+  })
+
+  it("applies metadata filters", async () => {
+    await ingest("query-filter")
+
+    const response = await request("/", "POST", {
+      version: 2,
+      text: "alpha",
+      namespace: "query-filter",
+      filter: { date: "2024-02-01" }
+    })
+    const body = await response.json<QueryResponseV2>()
+
+    expect(body.matches.map((match) => match.path)).toEqual(["beta.md"])
+  })
+
+  it("matches every paragraph separately", async () => {
+    await ingest("query-paragraphs")
+
+    const response = await request("/", "POST", {
+      version: 2,
+      text: `## Heading\n\n${paragraph("gamma")}\n\n${paragraph("beta")}`,
+      namespace: "query-paragraphs",
+      topK: 1,
+      perParagraph: true
+    })
+    const body = await response.json<QueryResponseV2>()
+
+    expect(
+      body.paragraphs?.map((paragraph) => [
+        paragraph.index,
+        paragraph.matches[0].path
+      ])
+    ).toEqual([
+      [0, "mixed.md"],
+      [1, "beta.md"]
+    ])
+  })
+})
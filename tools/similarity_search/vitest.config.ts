@@ -11,6 +11,7 @@ export default defineWorkersConfig({
           bindings: {
             API_KEY_TOKEN_CHECK: "test-api-key"
           },
+          kvNamespaces: ["DOCUMENTS"],
           wrappedBindings: {
             AI: {
               scriptName: "workers-ai"
@@ -25,8 +26,15 @@ export default defineWorkersConfig({
               modules: true,
               script: `export default function() {
                 return {
+                  // One dimension per test word, so texts about the same
+                  // word are similar
                   run: async (model, data) => {
-                    return Promise.resolve({ data: {} });
+                    const words = ["alpha", "beta", "gamma", "delta"];
+                    const vectors = data.text.map((text) => [
+                      ...words.map((word) => text.split(word).length - 1),
+                      0.1
+                    ]);
+                    return Promise.resolve({ data: vectors });
                   }
                 };
               };`
@@ -34,11 +42,50 @@ export default defineWorkersConfig({
             {
               name: "vectorize-index",
               modules: true,
-              script: `export default function() {
+              script: `const vectors = new Map();
+              export default function() {
                 return {
                   query: async (vectorData, options) => {
-                    const score = 0.5678;
-                    return Promise.resolve({ matches: [{ score }] });
+                    const stored = [...vectors.values()].filter(
+                      (vector) => vector.namespace === options.namespace
+                    );
+                    // Namespaces filled outside of these tests
+                    if (stored.length === 0) {
+                      const score = 0.5678;
+                      return Promise.resolve({ matches: [{ id: "legacy", score }] });
+                    }
+                    const norm = (values) =>
+                      Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+                    const matches = stored
+                      .filter((vector) =>
+                        Object.entries(options.filter ?? {}).every(
+                          ([key, value]) => vector.metadata?.[key] === value
+                        )
+                      )
+                      .map((vector) => ({
+                        id: vector.id,
+                        score:
+                          vector.values.reduce(
+                            (sum, value, i) => sum + value * vectorData[i],
+                            0
+                          ) /
+                          (norm(vector.values) * norm(vectorData)),
+                        ...(options.returnMetadata ? { metadata: vector.metadata } : {})
+                      }))
+                      .sort((a, b) => b.score - a.score)
+                      .slice(0, options.topK);
+                    return Promise.resolve({ matches });
+                  },
+                  upsert: async (batch) => {
+                    batch.forEach((vector) => vectors.set(vector.id, vector));
+                    return { ids: batch.map((vector) => vector.id), count: batch.length };
+                  },
+                  deleteByIds: async (ids) => {
+                    ids.forEach((id) => vectors.delete(id));
+                    return { ids, count: ids.length };
+                  },
+                  getByIds: async (ids) => {
+                    return ids.filter((id) => vectors.has(id)).map((id) => vectors.get(id));
                   }
                 };
               };`
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config"
+import path from "path"
+
+// The tools/ workers carry their own vitest setups
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "cloudflare-worker")
+    }
+  },
+  test: {
+    include: ["test/**/*.spec.ts"]
+  }
+})